@@ -2,8 +2,41 @@
 
 class DashboardController < InertiaController
   def index
-    events = Current.user.events.order(:start_on, :end_on, :created_at)
+    year = requested_year
+    range = requested_range(year) unless params[:all] == "true"
+    events = Current.user.events.with_attached_photos.with_attached_thumbnails.order(:start_on, :end_on, :created_at)
+    events = events.overlapping(range) if range
 
-    render inertia: {events: events.map(&:calendar_payload)}
+    render inertia: {
+      year: year,
+      range: range && {start: range.begin.iso8601, end: range.end.iso8601},
+      events: events.map(&:calendar_payload),
+      tones: Current.user.tones.order(:created_at).map(&:palette_payload),
+    }
+  end
+
+  private
+
+  def requested_year
+    year = Integer(params[:year], exception: false) if params[:year].is_a?(String)
+    year&.between?(1, 9999) ? year : Date.current.year
+  end
+
+  # Planner windows other than a calendar year (a custom start month, the
+  # rolling twelve months, two years side by side) send their own bounds.
+  def requested_range(year)
+    from = parse_date(params[:from])
+    to = parse_date(params[:to])
+    return Date.new(year).all_year unless from && to && from <= to
+
+    from..to
+  end
+
+  def parse_date(value)
+    return unless value.is_a?(String)
+
+    Date.iso8601(value)
+  rescue ArgumentError
+    nil
   end
 end
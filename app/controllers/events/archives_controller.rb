@@ -0,0 +1,21 @@
+# frozen_string_literal: true
+
+class Events::ArchivesController < InertiaController
+  before_action :set_event
+
+  def create
+    @event.archive
+    redirect_back_or_to dashboard_path, notice: "Event archived"
+  end
+
+  def destroy
+    @event.unarchive
+    redirect_back_or_to dashboard_path, notice: "Event restored"
+  end
+
+  private
+
+  def set_event
+    @event = Current.user.events.find(params[:event_id])
+  end
+end
@@ -0,0 +1,10 @@
+# frozen_string_literal: true
+
+class Events::CalendarsController < ApplicationController
+  def show
+    events = Current.user.events.active.order(:start_on, :end_on, :created_at)
+    calendar = Event::Calendar.new(events, name: "#{Current.user.name}'s visions")
+
+    send_data calendar.to_ics, filename: "visions.ics", type: "text/calendar", disposition: "attachment"
+  end
+end
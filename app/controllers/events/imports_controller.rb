@@ -0,0 +1,63 @@
+# frozen_string_literal: true
+
+class Events::ImportsController < InertiaController
+  MAX_EVENTS = 500
+
+  # Visions already in the planner with the same label and dates are
+  # skipped, so importing the same file twice adds nothing.
+  def create
+    imported = 0
+    skipped = 0
+
+    Event.transaction do
+      import_params.each do |attributes|
+        event = Current.user.events.new(attributes)
+        if !duplicate?(event) && event.save
+          imported += 1
+        else
+          skipped += 1
+        end
+      end
+    end
+
+    redirect_back_or_to dashboard_path, notice: import_notice(imported, skipped)
+  end
+
+  private
+
+  def import_params
+    params.expect(events: [[:label, :description, :tone, :category, :start, :end]]).first(MAX_EVENTS).map do |entry|
+      start_on = parse_date(entry[:start])
+      end_on = parse_date(entry[:end])
+      if start_on && end_on && start_on > end_on
+        start_on, end_on = end_on, start_on
+      end
+
+      {
+        label: entry[:label],
+        description: entry[:description].presence,
+        tone: entry[:tone],
+        category: entry[:category].presence,
+        start_on: start_on,
+        end_on: end_on,
+      }
+    end
+  end
+
+  def duplicate?(event)
+    Current.user.events.exists?(label: event.label, start_on: event.start_on, end_on: event.end_on)
+  end
+
+  def import_notice(imported, skipped)
+    notice = "Imported #{imported} #{"vision".pluralize(imported)}"
+    skipped.zero? ? notice : "#{notice}, skipped #{skipped}"
+  end
+
+  def parse_date(value)
+    return unless value.is_a?(String)
+
+    Date.iso8601(value)
+  rescue ArgumentError
+    nil
+  end
+end
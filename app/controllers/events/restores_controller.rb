@@ -0,0 +1,8 @@
+# frozen_string_literal: true
+
+class Events::RestoresController < InertiaController
+  def create
+    Current.user.deleted_events.find(params[:event_id]).restore
+    redirect_back_or_to dashboard_path, notice: "Event restored"
+  end
+end
@@ -0,0 +1,14 @@
+# frozen_string_literal: true
+
+class Events::SearchesController < ApplicationController
+  MAX_RESULTS = 20
+
+  # Searches every year, not just the planner window loaded on the page.
+  def show
+    query = params[:q].to_s.strip
+    events = query.present? ? Current.user.events.active.matching(query) : Event.none
+    events = events.with_attached_photos.with_attached_thumbnails.order(start_on: :desc).limit(MAX_RESULTS)
+
+    render json: events.map(&:calendar_payload)
+  end
+end
@@ -0,0 +1,124 @@
+# frozen_string_literal: true
+
+class Events::SyncsController < ApplicationController
+  MAX_OPERATIONS = 500
+
+  # Replays the creates, updates and deletes the planner queued while it was
+  # offline, in the order they were made. Updates and deletes carry the
+  # revision of the vision they were made against; when the vision has
+  # changed on the server since, the operation is reported as a conflict
+  # along with the server's copy instead of being applied.
+  def create
+    Current.user.sync_operations.expired.delete_all
+
+    replayed = {}
+    results = operation_params.map do |operation|
+      {id: operation[:id], **replay_once(operation, replayed)}
+    end
+
+    render json: {results: results}
+  end
+
+  private
+
+  def operation_params
+    params.expect(operations: [[:id, :clientId, :kind, :eventId, :baseUpdatedAt, event: [:label, :description, :tone, :category, :start, :end, images: [[:id, :thumbnailId]]]]]).first(MAX_OPERATIONS)
+  end
+
+  # A sync whose response never reached the browser is sent again, so an
+  # operation replayed before answers with the result it got then instead of
+  # being applied twice.
+  def replay_once(operation, replayed)
+    client_id = operation[:clientId].presence
+    return replay(operation, replayed) unless client_id
+
+    SyncOperation.transaction do
+      if (previous = Current.user.sync_operations.find_by(client_id: client_id))
+        result = previous.result.deep_symbolize_keys
+        remember(operation, result, replayed)
+        result
+      else
+        replay(operation, replayed).tap do |result|
+          Current.user.sync_operations.create!(client_id: client_id, result: result.as_json)
+        end
+      end
+    end
+  end
+
+  # Lets later operations in the batch follow a vision whose change was
+  # applied by an earlier sync.
+  def remember(operation, result, replayed)
+    return unless result[:status] == "applied"
+
+    event_id = operation[:eventId].to_s
+    event = result[:event] && Current.user.events.find_by(id: result.dig(:event, :id))
+    if event
+      replayed[event_id] = event
+    else
+      replayed.delete(event_id)
+    end
+  end
+
+  # Visions created offline have a temporary id until they are replayed, so
+  # later operations on them are matched through `replayed`. A vision
+  # changed earlier in the same batch was changed by this device, so its
+  # newer revision is not a conflict.
+  def replay(operation, replayed)
+    event_id = operation[:eventId].to_s
+
+    if operation[:kind] == "create"
+      event = Current.user.events.new(event_attributes(operation[:event]))
+      return {status: "invalid", errors: event.errors} unless event.save
+
+      replayed[event_id] = event
+      return {status: "applied", event: event.calendar_payload}
+    end
+
+    event = replayed[event_id] || Current.user.events.find_by(id: event_id)
+    return {status: operation[:kind] == "delete" ? "applied" : "missing"} unless event
+    if !replayed.key?(event_id) && operation[:baseUpdatedAt].to_i != event.revision
+      return {status: "conflict", event: event.calendar_payload}
+    end
+
+    case operation[:kind]
+    when "update"
+      return {status: "invalid", errors: event.errors} unless event.update(event_attributes(operation[:event]))
+
+      replayed[event_id] = event
+      {status: "applied", event: event.calendar_payload}
+    when "delete"
+      event.soft_delete
+      replayed.delete(event_id)
+      {status: "applied"}
+    else
+      {status: "invalid", errors: {kind: ["is not supported"]}}
+    end
+  end
+
+  def event_attributes(attributes)
+    attributes ||= {}
+    start_on = parse_date(attributes[:start])
+    end_on = parse_date(attributes[:end])
+    if start_on && end_on && start_on > end_on
+      start_on, end_on = end_on, start_on
+    end
+
+    {
+      label: attributes[:label],
+      description: attributes[:description].presence,
+      tone: attributes[:tone],
+      category: attributes[:category].presence,
+      start_on: start_on,
+      end_on: end_on,
+      image_references: attributes[:images] || [],
+    }
+  end
+
+  def parse_date(value)
+    return unless value.is_a?(String)
+
+    Date.iso8601(value)
+  rescue ArgumentError
+    nil
+  end
+end
@@ -1,33 +1,66 @@
 # frozen_string_literal: true
 
 class EventsController < InertiaController
+  PARAM_ATTRIBUTES = {
+    label: :label,
+    description: :description,
+    tone: :tone,
+    category: :category,
+    start: :start_on,
+    end: :end_on,
+    images: :image_references,
+  }.freeze
+
+  before_action :set_event, only: %i[ update destroy ]
+
   def create
     event = Current.user.events.new(event_params)
 
     if event.save
-      redirect_to dashboard_path, notice: "Event added"
+      redirect_back_or_to dashboard_path, notice: "Event added"
+    else
+      redirect_back_or_to dashboard_path, inertia: {errors: event.errors}
+    end
+  end
+
+  def update
+    if @event.update(event_params)
+      redirect_back_or_to dashboard_path, notice: "Event updated"
     else
-      redirect_to dashboard_path, inertia: {errors: event.errors}
+      redirect_back_or_to dashboard_path, inertia: {errors: @event.errors}
     end
   end
 
+  def destroy
+    @event.soft_delete
+    redirect_back_or_to dashboard_path
+  end
+
   private
 
+  def set_event
+    @event = Current.user.events.find(params[:id])
+  end
+
   def event_params
-    permitted = params.permit(:label, :tone, :start, :end, images: [])
+    permitted = params.permit(:label, :description, :tone, :category, :start, :end, images: [:id, :thumbnailId])
     start_on = parse_date(permitted[:start])
     end_on = parse_date(permitted[:end])
     if start_on && end_on && start_on > end_on
       start_on, end_on = end_on, start_on
     end
 
-    {
+    attributes = {
       label: permitted[:label],
+      description: permitted[:description].presence,
       tone: permitted[:tone],
+      category: permitted[:category].presence,
       start_on: start_on,
       end_on: end_on,
-      images: permitted[:images] || [],
+      image_references: permitted[:images] || [],
     }
+    # A partial PATCH leaves the attributes it doesn't send alone.
+    attributes.slice(*PARAM_ATTRIBUTES.filter_map { |param, attribute| attribute if permitted.key?(param) })
   end
 
   def parse_date(value)
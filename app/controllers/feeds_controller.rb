@@ -0,0 +1,14 @@
+# frozen_string_literal: true
+
+# Calendar apps subscribe to the feed without signing in; the secret token
+# in the URL is the only credential.
+class FeedsController < ApplicationController
+  skip_before_action :authenticate
+
+  def show
+    user = User.find_by!(feed_token: params[:token])
+    calendar = Event::Calendar.new(user.events.active.order(:start_on, :end_on, :created_at), name: "#{user.name}'s visions")
+
+    send_data calendar.to_ics, filename: "visions.ics", type: "text/calendar", disposition: "inline"
+  end
+end
@@ -0,0 +1,15 @@
+# frozen_string_literal: true
+
+class Settings::BackupsController < InertiaController
+  def show
+    respond_to do |format|
+      format.html { render inertia: {} }
+      format.json do
+        backup = Backup.new(Current.user, base_url: request.base_url)
+        archive = backup.to_h(embed_images: params[:images] == "embed")
+
+        send_data JSON.generate(archive), filename: backup.filename, type: :json, disposition: "attachment"
+      end
+    end
+  end
+end
@@ -0,0 +1,15 @@
+# frozen_string_literal: true
+
+class Settings::CalendarFeedsController < InertiaController
+  def show
+    token = Current.user.feed_token
+
+    render inertia: {feed_url: token && feed_url(token, format: :ics)}
+  end
+
+  # Also creates the first URL for accounts made before feeds existed.
+  def update
+    Current.user.regenerate_feed_token
+    redirect_to settings_calendar_feed_path, notice: "Your feed URL has been regenerated"
+  end
+end
@@ -0,0 +1,36 @@
+# frozen_string_literal: true
+
+class Settings::RestoresController < InertiaController
+  MAX_ARCHIVE_SIZE = 50.megabytes
+
+  # A dry run renders the summary on the backup page; a real restore
+  # redirects back to it.
+  def create
+    archive = params[:archive]
+    unless archive.respond_to?(:read) && archive.size <= MAX_ARCHIVE_SIZE
+      return redirect_to settings_backup_path, inertia: {errors: {archive: ["Choose a backup file under 50 MB, or a backup with image links"]}}
+    end
+
+    summary = Backup::Restore.new(Current.user, archive.read).run(dry_run: dry_run?)
+
+    if dry_run?
+      render inertia: "settings/backups/show", props: {preview: summary}
+    else
+      redirect_to settings_backup_path, notice: restore_notice(summary)
+    end
+  rescue Backup::InvalidArchive => error
+    redirect_to settings_backup_path, inertia: {errors: {archive: ["This file #{error.message}"]}}
+  end
+
+  private
+
+  def dry_run?
+    ActiveModel::Type::Boolean.new.cast(params[:dry_run])
+  end
+
+  def restore_notice(summary)
+    notice = "Restored #{summary[:events_created]} #{"vision".pluralize(summary[:events_created])}"
+    skipped = summary[:events_conflicting] + summary[:events_invalid]
+    skipped.zero? ? notice : "#{notice}, skipped #{skipped}"
+  end
+end
@@ -0,0 +1,42 @@
+# frozen_string_literal: true
+
+class Settings::TonesController < InertiaController
+  before_action :set_tone, only: %i[ update destroy ]
+
+  def index
+    render inertia: {tones: Current.user.tones.order(:created_at).map(&:palette_payload)}
+  end
+
+  def create
+    tone = Current.user.tones.new(tone_params)
+
+    if tone.save
+      redirect_to settings_tones_path, notice: "Color added"
+    else
+      redirect_to settings_tones_path, inertia: {errors: tone.errors}
+    end
+  end
+
+  def update
+    if @tone.update(tone_params)
+      redirect_to settings_tones_path, notice: "Color updated"
+    else
+      redirect_to settings_tones_path, inertia: {errors: @tone.errors}
+    end
+  end
+
+  def destroy
+    @tone.destroy!
+    redirect_to settings_tones_path, notice: "Color removed"
+  end
+
+  private
+
+  def set_tone
+    @tone = Current.user.tones.find_by!(key: params[:id])
+  end
+
+  def tone_params
+    params.permit(:name, :color)
+  end
+end
@@ -0,0 +1,222 @@
+import { UploadIcon } from "lucide-react"
+import { type ChangeEvent, useRef, useState } from "react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Spinner } from "@/components/ui/spinner"
+import { type IcsEvent, icsEventPayload, importKey, parseIcs } from "@/lib/ics"
+import { toDate } from "@/lib/planner-layout"
+import type { PaletteTone } from "@/lib/tones"
+import { formatEventRange } from "@/lib/visions"
+import type {
+  EventPayload,
+  EventSubmitOptions,
+  Tone,
+  VisionEvent,
+} from "@/types"
+
+interface ImportCandidate {
+  id: string
+  event: IcsEvent
+  // Already in the planner, or listed earlier in the same file.
+  duplicate: "planner" | "file" | null
+  selected: boolean
+}
+
+interface ImportPreview {
+  fileName: string
+  candidates: ImportCandidate[]
+}
+
+interface IcsImportProps {
+  // The visions already planned, so repeats start unchecked.
+  events: VisionEvent[]
+  palette: PaletteTone[]
+  onImport: (events: EventPayload[], options: EventSubmitOptions) => void
+}
+
+// The import button and the preview of the file it opens, where the events
+// to import are picked.
+export default function IcsImport({
+  events,
+  palette,
+  onImport,
+}: IcsImportProps) {
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null)
+  const [importTone, setImportTone] = useState<Tone["key"]>("sea")
+  const [isImporting, setIsImporting] = useState(false)
+  const icsInputRef = useRef<HTMLInputElement>(null)
+
+  const handleIcsFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    const parsed = parseIcs(await file.text())
+    if (parsed.length === 0) {
+      toast.error(`No events found in ${file.name}.`)
+      return
+    }
+    const planned = new Set(events.map(importKey))
+    const seen = new Set<string>()
+    const candidates = parsed.map((icsEvent, index): ImportCandidate => {
+      const key = importKey(icsEvent)
+      const duplicate = planned.has(key)
+        ? "planner"
+        : seen.has(key)
+          ? "file"
+          : null
+      seen.add(key)
+      return {
+        id: `${index}`,
+        event: icsEvent,
+        duplicate,
+        selected: duplicate === null,
+      }
+    })
+    setImportTone(palette[0].key)
+    setImportPreview({ fileName: file.name, candidates })
+  }
+
+  const toggleImportCandidate = (id: ImportCandidate["id"]) => {
+    setImportPreview((prev) =>
+      prev
+        ? {
+            ...prev,
+            candidates: prev.candidates.map((candidate) =>
+              candidate.id === id
+                ? { ...candidate, selected: !candidate.selected }
+                : candidate,
+            ),
+          }
+        : prev,
+    )
+  }
+
+  const selectedImports =
+    importPreview?.candidates.filter((candidate) => candidate.selected) ?? []
+
+  const confirmImport = () => {
+    const payloads = selectedImports.map((candidate) =>
+      icsEventPayload(candidate.event, importTone),
+    )
+    setIsImporting(true)
+    onImport(payloads, {
+      onSuccess: () => {
+        setIsImporting(false)
+        setImportPreview(null)
+      },
+      onError: () => {
+        setIsImporting(false)
+        toast.error("Could not import those visions. Please try again.")
+      },
+    })
+  }
+
+  return (
+    <>
+      <input
+        ref={icsInputRef}
+        type="file"
+        accept=".ics,text/calendar"
+        className="hidden"
+        onChange={(event) => void handleIcsFile(event)}
+      />
+      <button
+        type="button"
+        onClick={() => icsInputRef.current?.click()}
+        className="inline-flex h-8 items-center gap-2 rounded-full border border-slate-200 bg-white px-3 text-xs text-slate-500 transition hover:text-slate-800"
+      >
+        <UploadIcon className="size-3.5" />
+        Import .ics…
+      </button>
+      <Dialog
+        open={Boolean(importPreview)}
+        onOpenChange={(open) => {
+          if (!open) setImportPreview(null)
+        }}
+      >
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import visions</DialogTitle>
+            <DialogDescription>
+              {importPreview?.candidates.length} events in{" "}
+              {importPreview?.fileName}. Duplicates are left unchecked.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-80 overflow-y-auto rounded-xl border border-slate-200">
+            {importPreview?.candidates.map((candidate) => (
+              <label
+                key={candidate.id}
+                className="flex cursor-pointer items-center gap-3 border-b border-slate-100 px-3 py-2 last:border-b-0"
+              >
+                <Checkbox
+                  checked={candidate.selected}
+                  onCheckedChange={() => toggleImportCandidate(candidate.id)}
+                />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm font-semibold text-slate-900">
+                    {candidate.event.label}
+                  </span>
+                  <span className="block text-xs text-slate-500">
+                    {formatEventRange(candidate.event)},{" "}
+                    {toDate(candidate.event.start).getFullYear()}
+                  </span>
+                </span>
+                {candidate.duplicate ? (
+                  <span className="shrink-0 rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-semibold text-amber-800">
+                    {candidate.duplicate === "planner"
+                      ? "Already planned"
+                      : "Repeated in file"}
+                  </span>
+                ) : null}
+              </label>
+            ))}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="import-tone">Tile color</Label>
+            <Select value={importTone} onValueChange={setImportTone}>
+              <SelectTrigger id="import-tone" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {palette.map((tone) => (
+                  <SelectItem key={tone.key} value={tone.key}>
+                    {tone.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              disabled={selectedImports.length === 0 || isImporting}
+              onClick={confirmImport}
+            >
+              {isImporting ? <Spinner /> : <UploadIcon />}
+              Import {selectedImports.length}{" "}
+              {selectedImports.length === 1 ? "vision" : "visions"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,212 @@
+import { CalendarIcon, DownloadIcon, ImageIcon } from "lucide-react"
+import { useState } from "react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Spinner } from "@/components/ui/spinner"
+import {
+  type PdfLayout,
+  type Poster,
+  type PosterFormat,
+  type PosterOptions,
+  downloadBlob,
+  exportPoster,
+  paperSizes,
+} from "@/lib/poster"
+
+interface PlannerExportProps {
+  // The window shown on the grid, which also names the file.
+  title: string
+  calendarExportUrl?: string
+  buildPoster: () => Poster
+}
+
+// The export menu and the poster options it opens.
+export default function PlannerExport({
+  title,
+  calendarExportUrl,
+  buildPoster,
+}: PlannerExportProps) {
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportOptions, setExportOptions] = useState<PosterOptions>({
+    format: "pdf",
+    paper: "a4",
+    pdfLayout: "single",
+    thumbnails: true,
+  })
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const blob = await exportPoster(buildPoster(), exportOptions)
+      const name = title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "")
+      downloadBlob(blob, `vision-poster-${name}.${exportOptions.format}`)
+      setIsExportOpen(false)
+    } catch {
+      toast.error("Could not export the poster. Please try again.")
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            className="inline-flex h-8 items-center gap-2 rounded-full border border-slate-200 bg-white px-3 text-xs text-slate-500 transition hover:text-slate-800"
+          >
+            <DownloadIcon className="size-3.5" />
+            Export
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => setIsExportOpen(true)}>
+            <ImageIcon />
+            Poster…
+          </DropdownMenuItem>
+          {calendarExportUrl ? (
+            <DropdownMenuItem asChild>
+              <a href={calendarExportUrl} download>
+                <CalendarIcon />
+                Calendar file (.ics)
+              </a>
+            </DropdownMenuItem>
+          ) : null}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Dialog open={isExportOpen} onOpenChange={setIsExportOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Export poster</DialogTitle>
+            <DialogDescription>
+              Renders {title} as it appears on the grid. The file is made in
+              your browser.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="poster-format">Format</Label>
+              <Select
+                value={exportOptions.format}
+                onValueChange={(value) =>
+                  setExportOptions((prev) => ({
+                    ...prev,
+                    format: value as PosterFormat,
+                  }))
+                }
+              >
+                <SelectTrigger id="poster-format" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pdf">PDF document</SelectItem>
+                  <SelectItem value="png">PNG image</SelectItem>
+                  <SelectItem value="svg">SVG vector</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {exportOptions.format === "pdf" ? (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="poster-paper">Paper</Label>
+                  <Select
+                    value={exportOptions.paper}
+                    onValueChange={(value) =>
+                      setExportOptions((prev) => ({
+                        ...prev,
+                        paper: value as PosterOptions["paper"],
+                      }))
+                    }
+                  >
+                    <SelectTrigger id="poster-paper" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(paperSizes).map(([key, paper]) => (
+                        <SelectItem key={key} value={key}>
+                          {paper.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="poster-layout">Layout</Label>
+                  <Select
+                    value={exportOptions.pdfLayout}
+                    onValueChange={(value) =>
+                      setExportOptions((prev) => ({
+                        ...prev,
+                        pdfLayout: value as PdfLayout,
+                      }))
+                    }
+                  >
+                    <SelectTrigger id="poster-layout" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="single">Single sheet</SelectItem>
+                      <SelectItem value="pages">Paginated</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : null}
+            <div className="flex items-center gap-3">
+              <Checkbox
+                id="poster-thumbnails"
+                checked={exportOptions.thumbnails}
+                onCheckedChange={(checked) =>
+                  setExportOptions((prev) => ({
+                    ...prev,
+                    thumbnails: checked === true,
+                  }))
+                }
+              />
+              <Label htmlFor="poster-thumbnails">Include thumbnails</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              disabled={isExporting}
+              onClick={() => void handleExport()}
+            >
+              {isExporting ? <Spinner /> : <DownloadIcon />}
+              Download {exportOptions.format.toUpperCase()}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
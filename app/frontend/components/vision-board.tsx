@@ -0,0 +1,316 @@
+import { useMemo, useState } from "react"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { monthNames, monthsBetween } from "@/lib/planner-layout"
+import type { PaletteTone } from "@/lib/tones"
+import { previewUrl } from "@/lib/visions"
+import type { Tone, VisionEvent, VisionImage } from "@/types"
+
+type PlannerEventWithDates = VisionEvent & {
+  startDate: Date
+  endDate: Date
+}
+
+export type BoardGrouping = "month" | "quarter" | "year"
+
+interface BoardSection {
+  key: string
+  title: string
+  events: PlannerEventWithDates[]
+}
+
+const boardGroupingLabels: Record<BoardGrouping, string> = {
+  month: "Month",
+  quarter: "Quarter",
+  year: "All years",
+}
+
+function formatMonthSpan(start: Date, end: Date) {
+  const startMonth = monthNames[start.getMonth()].slice(0, 3)
+  const endMonth = monthNames[end.getMonth()].slice(0, 3)
+  return start.getFullYear() === end.getFullYear()
+    ? `${startMonth}–${endMonth} ${end.getFullYear()}`
+    : `${startMonth} ${start.getFullYear()}–${endMonth} ${end.getFullYear()}`
+}
+
+// Month and quarter sections only hold visions inside the window, filed
+// under the month they start in (or the window's first month when they
+// began earlier). Quarters count from the window start, so a September
+// window gets fiscal quarters. "All years" files every vision by year.
+function groupVisionEvents(
+  events: PlannerEventWithDates[],
+  grouping: BoardGrouping,
+  windowStart: Date,
+  windowEnd: Date,
+) {
+  const sections = new Map<string, BoardSection>()
+  const sorted = [...events].sort(
+    (a, b) => a.startDate.getTime() - b.startDate.getTime(),
+  )
+  for (const event of sorted) {
+    if (
+      grouping !== "year" &&
+      (event.endDate < windowStart || event.startDate > windowEnd)
+    ) {
+      continue
+    }
+    const date = event.startDate < windowStart ? windowStart : event.startDate
+    let key = `${event.startDate.getFullYear()}`
+    let title = key
+    if (grouping === "month") {
+      key = `${date.getFullYear()}-${date.getMonth()}`
+      title = `${monthNames[date.getMonth()]} ${date.getFullYear()}`
+    } else if (grouping === "quarter") {
+      const quarter = Math.floor(monthsBetween(windowStart, date) / 3)
+      const firstMonth = windowStart.getMonth() + quarter * 3
+      const start = new Date(windowStart.getFullYear(), firstMonth, 1)
+      const end = new Date(windowStart.getFullYear(), firstMonth + 3, 0)
+      key = `q-${quarter}`
+      title = `Q${(quarter % 4) + 1} · ${formatMonthSpan(start, end)}`
+    }
+    const section = sections.get(key) ?? { key, title, events: [] }
+    section.events.push(event)
+    sections.set(key, section)
+  }
+  return Array.from(sections.values())
+}
+
+interface VisionBoardProps {
+  events: PlannerEventWithDates[]
+  grouping: BoardGrouping
+  onGroupingChange: (grouping: BoardGrouping) => void
+  windowStart: Date
+  windowEnd: Date
+  windowTitle: string
+  toneFor: (key: Tone["key"]) => PaletteTone
+  onSelect: (event: VisionEvent) => void
+}
+
+// The visions as cards with their imagery, in sections by month, quarter
+// or year.
+export default function VisionBoard({
+  events,
+  grouping,
+  onGroupingChange,
+  windowStart,
+  windowEnd,
+  windowTitle,
+  toneFor,
+  onSelect,
+}: VisionBoardProps) {
+  const [detailImage, setDetailImage] = useState<{
+    image: VisionImage
+    label: string
+  } | null>(null)
+  const sections = useMemo(
+    () => groupVisionEvents(events, grouping, windowStart, windowEnd),
+    [events, grouping, windowStart, windowEnd],
+  )
+  const boardEvents = sections.flatMap((section) => section.events)
+  const archivedCount = boardEvents.filter((event) => event.archived).length
+
+  return (
+    <>
+      <div className="rounded-3xl border border-slate-200/70 bg-white/85 p-6 shadow-[0_30px_70px_-50px_rgba(15,23,42,0.6)] sm:p-8">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <p
+              className="text-sm font-semibold tracking-[0.25em] text-slate-500 uppercase"
+              style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+            >
+              Vision board
+            </p>
+            <p className="text-xs text-slate-400">
+              Pin the imagery, then anchor it to the calendar.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-[11px] text-slate-500">
+            <div
+              className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white p-0.5 font-semibold"
+              role="group"
+              aria-label="Group visions by"
+            >
+              {(
+                Object.entries(boardGroupingLabels) as [BoardGrouping, string][]
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => onGroupingChange(value)}
+                  aria-pressed={value === grouping}
+                  className={`rounded-full px-3 py-1 transition ${
+                    value === grouping
+                      ? "bg-slate-900 text-white"
+                      : "text-slate-500 hover:text-slate-800"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <span className="rounded-full border border-slate-200 bg-white px-3 py-1">
+              {boardEvents.length} visions
+            </span>
+            {archivedCount > 0 ? (
+              <span className="rounded-full border border-slate-200 bg-white px-3 py-1">
+                {archivedCount} archived
+              </span>
+            ) : null}
+            <span className="rounded-full border border-slate-200 bg-white px-3 py-1">
+              {grouping === "year" ? "All years" : windowTitle}
+            </span>
+          </div>
+        </div>
+
+        {sections.length === 0 ? (
+          <div className="mt-6 rounded-2xl border border-dashed border-slate-200 bg-slate-50 px-4 py-10 text-center text-xs text-slate-500">
+            No visions in {windowTitle} yet.
+          </div>
+        ) : null}
+        {sections.map((section) => (
+          <section
+            key={section.key}
+            className="mt-8 first-of-type:mt-6"
+            aria-labelledby={`vision-section-${section.key}`}
+          >
+            <div className="flex items-center gap-3">
+              <h2
+                id={`vision-section-${section.key}`}
+                className="text-xs font-semibold tracking-[0.25em] text-slate-500 uppercase"
+                style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+              >
+                {section.title}
+              </h2>
+              <span className="text-[11px] text-slate-400">
+                {section.events.length}
+              </span>
+              <span className="h-px flex-1 bg-slate-200" />
+            </div>
+            <div className="mt-4 columns-1 gap-5 sm:columns-2 lg:columns-3">
+              {section.events.map((event) => {
+                const previewImages = event.images.slice(0, 4)
+                const imageGridCols =
+                  previewImages.length <= 1 ? "grid-cols-1" : "grid-cols-2"
+                return (
+                  <div
+                    key={`${event.id}-vision-card`}
+                    className={`relative mb-5 cursor-pointer break-inside-avoid overflow-hidden rounded-3xl border border-slate-200/80 bg-white p-5 shadow-[0_24px_60px_-40px_rgba(15,23,42,0.6)] ${
+                      event.archived ? "opacity-60 grayscale-[40%]" : ""
+                    }`}
+                    tabIndex={0}
+                    role="button"
+                    onClick={() => onSelect(event)}
+                    onKeyDown={(eventKey) => {
+                      if (eventKey.key === "Enter" || eventKey.key === " ") {
+                        eventKey.preventDefault()
+                        onSelect(event)
+                      }
+                    }}
+                  >
+                    <div
+                      className="absolute inset-0 opacity-70"
+                      style={{
+                        background: `linear-gradient(140deg, ${toneFor(event.tone).color}22, transparent 55%)`,
+                      }}
+                    />
+                    <div className="relative space-y-4">
+                      <div className="flex items-start justify-between gap-3">
+                        <p className="text-sm font-semibold text-slate-900">
+                          {event.label}
+                        </p>
+                        <span className="flex items-center gap-2">
+                          {event.archived ? (
+                            <span className="rounded-full border border-slate-200 bg-white px-2 py-0.5 text-[9px] font-semibold tracking-[0.2em] text-slate-500 uppercase">
+                              Archived
+                            </span>
+                          ) : null}
+                          <span
+                            className="h-2.5 w-2.5 rounded-full"
+                            style={{
+                              backgroundColor: toneFor(event.tone).color,
+                            }}
+                            aria-hidden="true"
+                          />
+                        </span>
+                      </div>
+
+                      {event.description ? (
+                        <p className="text-xs leading-relaxed whitespace-pre-line text-slate-600">
+                          {event.description}
+                        </p>
+                      ) : null}
+
+                      {previewImages.length > 0 ? (
+                        <div className={`grid gap-2 ${imageGridCols}`}>
+                          {previewImages.map((image, index) => (
+                            <button
+                              type="button"
+                              key={`${event.id}-vision-image-${image.id}`}
+                              onClick={(clickEvent) => {
+                                clickEvent.stopPropagation()
+                                setDetailImage({
+                                  image,
+                                  label: event.label,
+                                })
+                              }}
+                              onKeyDown={(keyEvent) =>
+                                keyEvent.stopPropagation()
+                              }
+                              aria-label={`View ${event.label} image`}
+                              className={`block cursor-zoom-in overflow-hidden rounded-2xl border border-white/60 shadow-[0_16px_30px_-22px_rgba(15,23,42,0.6)] ${
+                                previewImages.length === 1
+                                  ? "aspect-[4/3]"
+                                  : index === 0
+                                    ? "aspect-[4/3]"
+                                    : "aspect-square"
+                              }`}
+                            >
+                              <img
+                                src={previewUrl(image)}
+                                alt={`${event.label} vision`}
+                                className="h-full w-full object-cover"
+                              />
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="rounded-2xl border border-dashed border-slate-200 bg-slate-50 px-4 py-6 text-xs text-slate-500">
+                          Add imagery to bring this vision to life.
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </section>
+        ))}
+      </div>
+      <Dialog
+        open={Boolean(detailImage)}
+        onOpenChange={(open) => {
+          if (!open) setDetailImage(null)
+        }}
+      >
+        <DialogContent className="max-w-[min(92vw,1100px)] overflow-hidden border-0 bg-slate-950 p-0 sm:max-w-[min(92vw,1100px)]">
+          <DialogTitle className="sr-only">{detailImage?.label}</DialogTitle>
+          <DialogDescription className="sr-only">
+            Full size vision image
+          </DialogDescription>
+          {detailImage ? (
+            <img
+              src={detailImage.image.url}
+              alt={`${detailImage.label} vision`}
+              className="max-h-[85vh] w-full object-contain"
+            />
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,187 @@
+import { SearchIcon } from "lucide-react"
+import {
+  type KeyboardEvent as ReactKeyboardEvent,
+  useEffect,
+  useRef,
+  useState,
+} from "react"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toDate } from "@/lib/planner-layout"
+import type { PaletteTone } from "@/lib/tones"
+import { formatEventRange } from "@/lib/visions"
+import type { Tone, VisionEvent } from "@/types"
+
+const searchDebounceMs = 200
+
+function VisionSearch({
+  search,
+  toneFor,
+  onSelect,
+}: {
+  search: (query: string) => Promise<VisionEvent[]>
+  toneFor: (key: Tone["key"]) => PaletteTone
+  onSelect: (event: VisionEvent) => void
+}) {
+  const [query, setQuery] = useState("")
+  // Earlier results stay listed until the next search settles.
+  const [found, setFound] = useState<{ query: string; events: VisionEvent[] }>({
+    query: "",
+    events: [],
+  })
+  const [activeIndex, setActiveIndex] = useState(0)
+  const searchRef = useRef(search)
+  const trimmedQuery = query.trim()
+
+  useEffect(() => {
+    searchRef.current = search
+  })
+
+  useEffect(() => {
+    if (!trimmedQuery) return
+    let isCurrent = true
+    const timeout = window.setTimeout(() => {
+      void searchRef
+        .current(trimmedQuery)
+        .catch(() => [])
+        .then((events) => {
+          if (!isCurrent) return
+          setFound({ query: trimmedQuery, events })
+          setActiveIndex(0)
+        })
+    }, searchDebounceMs)
+    return () => {
+      isCurrent = false
+      window.clearTimeout(timeout)
+    }
+  }, [trimmedQuery])
+
+  const visibleResults = trimmedQuery ? found.events : []
+  const activeResult = visibleResults[activeIndex] as VisionEvent | undefined
+
+  // Focus stays in the input while the arrow keys move the active option.
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault()
+      if (visibleResults.length === 0) return
+      const step = event.key === "ArrowDown" ? 1 : -1
+      setActiveIndex(
+        (prev) => (prev + step + visibleResults.length) % visibleResults.length,
+      )
+    }
+    if (event.key === "Enter" && activeResult) {
+      event.preventDefault()
+      onSelect(activeResult)
+    }
+  }
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center gap-3 border-b border-slate-200/80 px-4">
+        <SearchIcon className="size-4 shrink-0 text-slate-400" />
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search visions in every year"
+          className="h-12 w-full bg-transparent text-sm text-slate-900 outline-none placeholder:text-slate-400"
+          role="combobox"
+          aria-label="Search visions"
+          aria-expanded={visibleResults.length > 0}
+          aria-controls="vision-search-results"
+          aria-activedescendant={
+            activeResult ? `vision-search-option-${activeIndex}` : undefined
+          }
+          autoComplete="off"
+        />
+      </div>
+      <div
+        id="vision-search-results"
+        role="listbox"
+        aria-label="Matching visions"
+        className="max-h-80 overflow-y-auto p-2"
+      >
+        {visibleResults.map((event, index) => {
+          const start = toDate(event.start)
+          return (
+            <div
+              key={event.id}
+              id={`vision-search-option-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => onSelect(event)}
+              className={`flex cursor-pointer items-center gap-3 rounded-xl px-3 py-2 ${
+                index === activeIndex ? "bg-slate-100" : ""
+              }`}
+            >
+              <span
+                className="h-2.5 w-2.5 shrink-0 rounded-full"
+                style={{ backgroundColor: toneFor(event.tone).color }}
+              />
+              <span className="min-w-0 flex-1">
+                <span className="block truncate text-sm font-semibold text-slate-900">
+                  {event.label}
+                </span>
+                {event.description ? (
+                  <span className="block truncate text-xs text-slate-500">
+                    {event.description}
+                  </span>
+                ) : null}
+              </span>
+              <span className="shrink-0 text-xs text-slate-500">
+                {formatEventRange(event)}, {start.getFullYear()}
+              </span>
+            </div>
+          )
+        })}
+        {visibleResults.length === 0 ? (
+          <p className="px-3 py-6 text-center text-xs text-slate-500">
+            {!trimmedQuery
+              ? "Type a name or a note to find a vision."
+              : found.query !== trimmedQuery
+                ? "Searching…"
+                : `No visions match “${trimmedQuery}”.`}
+          </p>
+        ) : null}
+      </div>
+    </div>
+  )
+}
+
+interface VisionSearchDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  search: (query: string) => Promise<VisionEvent[]>
+  toneFor: (key: Tone["key"]) => PaletteTone
+  onSelect: (event: VisionEvent) => void
+}
+
+export default function VisionSearchDialog({
+  open,
+  onOpenChange,
+  search,
+  toneFor,
+  onSelect,
+}: VisionSearchDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="top-[20%] translate-y-0 gap-0 overflow-hidden p-0 sm:max-w-xl"
+        showCloseButton={false}
+      >
+        <DialogTitle className="sr-only">Jump to a vision</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search vision names and notes in every year, then pick one to show it
+          on the year grid.
+        </DialogDescription>
+        <VisionSearch search={search} toneFor={toneFor} onSelect={onSelect} />
+      </DialogContent>
+    </Dialog>
+  )
+}
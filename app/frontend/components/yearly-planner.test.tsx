@@ -0,0 +1,101 @@
+// @vitest-environment jsdom
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  within,
+} from "@testing-library/react"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import YearlyPlanner from "@/components/yearly-planner"
+
+const cell = (key: string) => {
+  const element = document.getElementById(`year-day-${key}`)
+  if (!element) throw new Error(`No cell for ${key}`)
+  return element
+}
+
+const selectedDays = () =>
+  Array.from(document.querySelectorAll('[aria-selected="true"]')).map(
+    (element) => (element as HTMLElement).dataset.date,
+  )
+
+let hovered: Element | null = null
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(new Date(2026, 2, 10, 12))
+  vi.stubGlobal(
+    "ResizeObserver",
+    class {
+      observe = vi.fn()
+      unobserve = vi.fn()
+      disconnect = vi.fn()
+    },
+  )
+  document.elementFromPoint = () => hovered
+  Element.prototype.setPointerCapture = vi.fn()
+  Element.prototype.scrollIntoView = vi.fn()
+})
+
+afterEach(() => {
+  cleanup()
+  hovered = null
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe("selecting days in the grid", () => {
+  it("keeps a keyboard range while hovering and opens a clicked day", () => {
+    render(<YearlyPlanner year={2026} events={[]} />)
+
+    fireEvent.keyDown(cell("2026-03-10"), { key: "ArrowRight", shiftKey: true })
+    expect(selectedDays()).toEqual(["2026-03-10", "2026-03-11"])
+
+    hovered = cell("2026-03-13")
+    fireEvent.pointerMove(hovered, { clientX: 10, clientY: 10 })
+    expect(selectedDays()).toEqual(["2026-03-10", "2026-03-11"])
+
+    // A release without a press on the grid isn't a drag.
+    fireEvent.pointerUp(hovered)
+    expect(screen.queryByRole("dialog")).toBeNull()
+
+    fireEvent.pointerDown(hovered, { button: 0, pointerType: "mouse" })
+    fireEvent.pointerUp(hovered)
+    const sheet = screen.getByRole("dialog")
+    expect(within(sheet).getAllByDisplayValue("2026-03-13")).toHaveLength(2)
+  })
+})
+
+describe("moving visions with the keyboard", () => {
+  it("keeps plain arrows on a vision from switching years", () => {
+    const onWindowChange = vi.fn()
+    render(
+      <YearlyPlanner
+        year={2026}
+        events={[
+          {
+            id: 1,
+            label: "Copenhagen sprint",
+            start: "2026-03-10",
+            end: "2026-03-11",
+            tone: "sea",
+            images: [],
+          },
+        ]}
+        onWindowChange={onWindowChange}
+      />,
+    )
+    onWindowChange.mockClear()
+
+    const segment = screen
+      .getAllByRole("button", { name: /Copenhagen sprint/ })
+      .find((element) => element.hasAttribute("aria-keyshortcuts"))
+    if (!segment) throw new Error("No segment for the vision")
+    fireEvent.keyDown(segment, { key: "ArrowRight" })
+    fireEvent.keyDown(segment, { key: "ArrowLeft" })
+
+    expect(onWindowChange).not.toHaveBeenCalled()
+  })
+})
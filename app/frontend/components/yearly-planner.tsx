@@ -1,13 +1,40 @@
 import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  SearchIcon,
+  XIcon,
+} from "lucide-react"
+import {
+  type ChangeEvent,
+  type FormEvent,
+  Fragment,
+  type KeyboardEvent as ReactKeyboardEvent,
+  type PointerEvent,
+  type ReactNode,
+  memo,
+  startTransition,
   useEffect,
+  useLayoutEffect,
   useMemo,
   useRef,
   useState,
-  type ChangeEvent,
-  type FormEvent,
-  type ReactNode,
 } from "react"
+import { toast } from "sonner"
 
+import IcsImport from "@/components/ics-import"
+import InputError from "@/components/input-error"
+import PlannerExport from "@/components/planner-export"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Separator } from "@/components/ui/separator"
 import {
   Sheet,
   SheetClose,
@@ -16,94 +43,108 @@ import {
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet"
-import { XIcon } from "lucide-react"
-import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
-import { Label } from "@/components/ui/label"
-import { Separator } from "@/components/ui/separator"
-import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
-type PlannerEvent = {
-  id: string | number
-  label: string
-  start: string
-  end: string
-  tone: "sea" | "sunset" | "orchid" | "ink"
-  createdAt?: number
-}
-
-type VisionEvent = PlannerEvent & {
-  images: string[]
-  description?: string
-}
-
-type EventPayload = Omit<VisionEvent, "id" | "createdAt">
-
-type PlannerEventWithDates = VisionEvent & {
-  startDate: Date
-  endDate: Date
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+import VisionBoard, { type BoardGrouping } from "@/components/vision-board"
+import VisionSearchDialog from "@/components/vision-search-dialog"
+import { categories, categoryKeyFor, uncategorized } from "@/lib/categories"
+import { prepareImage } from "@/lib/image-pipeline"
+import {
+  type GridLayout,
+  type GridRowSpan,
+  type PlannerWindow,
+  type RowRange,
+  type WindowDay,
+  type WindowLayout,
+  addDays,
+  calendarYearWindow,
+  daysBetween,
+  formatDateKey,
+  gridKeyTarget,
+  layoutWindow,
+  monthNames,
+  rowHeights,
+  rowOverflow,
+  stackHeight,
+  toDate,
+  twelveMonthWindow,
+  visibleRowRange,
+  windowRowSpans,
+} from "@/lib/planner-layout"
+import type { Poster } from "@/lib/poster"
+import { type PaletteTone, buildPalette } from "@/lib/tones"
+import { cn } from "@/lib/utils"
+import { formatEventRange, matchesSearch, previewUrl } from "@/lib/visions"
+import type {
+  Category,
+  DateRange,
+  EventErrors,
+  EventPayload,
+  EventSubmitOptions,
+  Tone,
+  VisionEvent,
+  VisionImage,
+} from "@/types"
+
+type SheetImage = Partial<VisionImage> & {
+  key: string
+  url: string
+  progress: number
+  error?: string
 }
 
-type EventSegment = {
-  id: PlannerEvent["id"]
-  label: string
-  tone: PlannerEvent["tone"]
-  startDay: number
-  endDay: number
-  row: number
-  colStart: number
-  span: number
-  colEnd: number
-  createdAt: number
+const maxEventImages = 6
+
+const yearEventRowHeight = 32
+const yearEventRowGap = 8
+// Rows with more overlapping visions than this collapse the rest behind a
+// "+N more" chip, which takes the last lane.
+const maxVisibleLanes = 3
+// The day grid's gap-1.5, which row positions are measured with.
+const dayGridGap = 6
+// Rows drawn past each edge of the viewport, so a quick scroll doesn't
+// uncover empty rows before the next measurement.
+const overscanRows = 2
+
+function laneRowKey(
+  gridLayout: GridLayout,
+  window: PlannerWindow,
+  row: number,
+) {
+  return `${gridLayout}:${window.key}:${row}`
 }
 
-const monthNames = [
-  "January",
-  "February",
-  "March",
-  "April",
-  "May",
-  "June",
-  "July",
-  "August",
-  "September",
-  "October",
-  "November",
-  "December",
-]
-
-const weekdayShort = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+type PlannerWindowMode = "calendar" | "custom" | "rolling" | "two-year"
 
-const toneStyles: Record<PlannerEvent["tone"], string> = {
-  sea: "bg-[#1b6c7a] text-white/95",
-  sunset: "bg-[#e66a3b] text-white/95",
-  orchid: "bg-[#8a4b87] text-white/95",
-  ink: "bg-[#1f2937] text-white/95",
+interface DaySelection {
+  anchorDate: string
+  currentDate: string
 }
 
-const toneOrder: PlannerEvent["tone"][] = ["sea", "sunset", "orchid", "ink"]
+type SegmentDragMode = "move" | "start" | "end"
 
-const tonePolaroidBackground: Record<PlannerEvent["tone"], string> = {
-  sea: "#1b6c7a",
-  sunset: "#e66a3b",
-  orchid: "#8a4b87",
-  ink: "#1f2937",
+// Keyboard equivalents for dragging a focused segment: Alt+arrows move the
+// range, Shift+arrows move its end and Alt+Shift+arrows move its start.
+const segmentKeyModes: Record<string, SegmentDragMode> = {
+  alt: "move",
+  shift: "end",
+  "alt+shift": "start",
 }
 
-const tonePolaroidText: Record<PlannerEvent["tone"], string> = {
-  sea: "#ffffff",
-  sunset: "#ffffff",
-  orchid: "#ffffff",
-  ink: "#ffffff",
+interface SegmentDrag {
+  eventId: VisionEvent["id"]
+  mode: SegmentDragMode
+  // Day the pointer grabbed; null while the range is nudged by keyboard.
+  anchorDate: string | null
+  delta: number
 }
 
-const toneLabels: Record<PlannerEvent["tone"], string> = {
-  sea: "Deep sea",
-  sunset: "Burnt sunset",
-  orchid: "Night orchid",
-  ink: "Midnight ink",
-}
+const weekdayShort = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
 
-const createPolaroidImage = (label: string, hue: number) => {
+const createPolaroidImage = (label: string, hue: number): VisionImage => {
   const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="400" viewBox="0 0 300 400">
     <defs>
       <linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
@@ -116,23 +157,19 @@ const createPolaroidImage = (label: string, hue: number) => {
     <circle cx="80" cy="300" r="56" fill="rgba(255,255,255,0.2)"/>
     <text x="24" y="360" font-family="Space Grotesk, sans-serif" font-size="22" fill="rgba(255,255,255,0.9)">${label}</text>
   </svg>`
-  return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`
-}
-
-function formatDateKey(date: Date) {
-  const year = date.getFullYear()
-  const month = `${date.getMonth() + 1}`.padStart(2, "0")
-  const day = `${date.getDate()}`.padStart(2, "0")
-  return `${year}-${month}-${day}`
+  const url = `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`
+  return { id: url, url }
 }
 
 const sampleEventTemplates: VisionEvent[] = [
   {
     id: "copenhagen",
     label: "Copenhagen sprint",
+    description: "Design week with the team, then bikes along the harbour.",
     start: "2026-03-17",
     end: "2026-03-23",
     tone: "sea",
+    category: "career",
     images: [
       createPolaroidImage("Copenhagen", 188),
       createPolaroidImage("Nordic light", 210),
@@ -141,9 +178,11 @@ const sampleEventTemplates: VisionEvent[] = [
   {
     id: "spring-break",
     label: "Spring break",
+    description: "Slow mornings on the coast. No laptop.",
     start: "2026-04-04",
     end: "2026-04-10",
     tone: "sunset",
+    category: "health",
     images: [
       createPolaroidImage("Sunset coast", 24),
       createPolaroidImage("Slow mornings", 36),
@@ -156,6 +195,7 @@ const sampleEventTemplates: VisionEvent[] = [
     start: "2026-06-12",
     end: "2026-06-15",
     tone: "orchid",
+    category: "relationships",
     images: [
       createPolaroidImage("Wedding", 320),
       createPolaroidImage("Celebration", 300),
@@ -164,9 +204,11 @@ const sampleEventTemplates: VisionEvent[] = [
   {
     id: "new-zealand",
     label: "New Zealand",
+    description: "Glaciers, hot pools and the long drive south.",
     start: "2026-09-02",
     end: "2026-09-12",
     tone: "sea",
+    category: "travel",
     images: [
       createPolaroidImage("New Zealand", 200),
       createPolaroidImage("Glacier", 220),
@@ -178,6 +220,7 @@ const sampleEventTemplates: VisionEvent[] = [
     start: "2026-10-20",
     end: "2026-10-22",
     tone: "ink",
+    category: "creative",
     images: [createPolaroidImage("Oasis", 240)],
   },
 ]
@@ -196,24 +239,16 @@ const createSampleEventsForYear = (year: number) =>
     }
   })
 
-function toDate(value: string) {
-  const [year, month, day] = value.split("-").map(Number)
-  return new Date(year, month - 1, day)
-}
-
-function isLeapYear(year: number) {
-  return year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0)
-}
-
-function formatEventRange(event: PlannerEvent) {
-  const start = toDate(event.start)
-  const end = toDate(event.end)
-  const startMonth = monthNames[start.getMonth()].slice(0, 3)
-  const endMonth = monthNames[end.getMonth()].slice(0, 3)
-  if (start.getMonth() === end.getMonth()) {
-    return `${startMonth} ${start.getDate()}–${end.getDate()}`
+function toEventPayload(event: VisionEvent): EventPayload {
+  return {
+    label: event.label,
+    start: event.start,
+    end: event.end,
+    tone: event.tone,
+    category: event.category,
+    images: event.images.map(({ id, thumbnailId }) => ({ id, thumbnailId })),
+    description: event.description,
   }
-  return `${startMonth} ${start.getDate()}–${endMonth} ${end.getDate()}`
 }
 
 function splitEventLabel(label: string) {
@@ -231,7 +266,7 @@ function splitEventLabel(label: string) {
 }
 
 const polaroidStyle = {
-  content: (event: VisionEvent) => {
+  content: (event: VisionEvent, tone: PaletteTone) => {
     const { emoji, text } = splitEventLabel(event.label)
     const previewImages = event.images.slice(0, 4)
     const isSingle = previewImages.length <= 1
@@ -255,40 +290,63 @@ const polaroidStyle = {
           } as React.CSSProperties
         }
       >
-        <div className="relative px-2 pb-2 pt-2">
-          <div className="relative" style={{ height: "var(--stack-height)" }}>
-            {previewImages.map((image, index) => {
-              const placement = placements[index] ?? placements[0]
-              const isSingle = previewImages.length <= 1
-              return (
-                <div
-                  key={`${event.id}-tooltip-image-${image}`}
-                  className={
-                    isSingle
-                      ? "absolute left-1/2 bottom-0"
-                      : "absolute left-1/2 top-1"
-                  }
-                  data-polaroid-single={isSingle ? true : undefined}
-                  style={{
-                    width: "var(--stack-image)",
-                    transform: isSingle
-                      ? `translate(${placement.x}, ${placement.y})`
-                      : `translate(${placement.x}, ${placement.y}) rotate(${placement.rotate}deg)`,
-                    zIndex: previewImages.length - index,
-                  }}
-                >
-                  <div className="overflow-hidden rounded-xl border border-white/80 bg-white shadow-[0_18px_40px_-24px_rgba(15,23,42,0.6)]">
-                    <div className="aspect-[4/3]">
-                      <img
-                        src={image}
-                        alt={`${event.label} vision`}
-                        className="block h-full w-full object-cover object-center"
-                      />
+        <div className="relative px-2 pt-2 pb-2">
+          {previewImages.length > 0 ? (
+            <div className="relative" style={{ height: "var(--stack-height)" }}>
+              {previewImages.map((image, index) => {
+                const placement = placements[index] ?? placements[0]
+                const isSingle = previewImages.length <= 1
+                return (
+                  <div
+                    key={`${event.id}-tooltip-image-${image.id}`}
+                    className={
+                      isSingle
+                        ? "absolute bottom-0 left-1/2"
+                        : "absolute top-1 left-1/2"
+                    }
+                    data-polaroid-single={isSingle ? true : undefined}
+                    style={{
+                      width: "var(--stack-image)",
+                      transform: isSingle
+                        ? `translate(${placement.x}, ${placement.y})`
+                        : `translate(${placement.x}, ${placement.y}) rotate(${placement.rotate}deg)`,
+                      zIndex: previewImages.length - index,
+                    }}
+                  >
+                    <div className="overflow-hidden rounded-xl border border-white/80 bg-white shadow-[0_18px_40px_-24px_rgba(15,23,42,0.6)]">
+                      <div className="aspect-[4/3]">
+                        <img
+                          src={previewUrl(image)}
+                          alt={`${event.label} vision`}
+                          className="block h-full w-full object-cover object-center"
+                        />
+                      </div>
                     </div>
                   </div>
-                </div>
-              )
-            })}
+                )
+              })}
+            </div>
+          ) : null}
+          <div
+            className="relative z-10 mx-auto mt-3 max-w-full rounded-xl px-4 py-3 shadow-[0_18px_40px_-24px_rgba(15,23,42,0.6)]"
+            style={{
+              width: "var(--stack-image)",
+              backgroundColor: tone.color,
+              color: tone.text,
+            }}
+          >
+            <p className="flex items-center gap-2 text-sm font-semibold">
+              {emoji ? <span className="text-base">{emoji}</span> : null}
+              <span className="truncate">{text}</span>
+              <span className="ml-auto shrink-0 text-[11px] font-medium opacity-80">
+                {formatEventRange(event)}
+              </span>
+            </p>
+            {event.description ? (
+              <p className="mt-1 line-clamp-3 text-xs leading-relaxed whitespace-pre-line opacity-90">
+                {event.description}
+              </p>
+            ) : null}
           </div>
         </div>
       </div>
@@ -296,15 +354,65 @@ const polaroidStyle = {
   },
 }
 
-function VisionTooltipContent({ event }: { event: VisionEvent }) {
+function hasVisionPreview(event: VisionEvent) {
+  return event.images.length > 0 || Boolean(event.description)
+}
+
+function VisionTooltipContent({
+  event,
+  tone,
+}: {
+  event: VisionEvent
+  tone: PaletteTone
+}) {
   const variant = polaroidStyle
   return (
-    <div className="relative overflow-visible">{variant.content(event)}</div>
+    <div className="relative overflow-visible">
+      {variant.content(event, tone)}
+    </div>
+  )
+}
+
+// The polaroid stack and its images are only built once the tooltip first
+// opens, so a grid full of pills carries nothing but their triggers.
+function VisionTooltip({
+  event,
+  tone,
+  children,
+}: {
+  event: VisionEvent
+  tone: PaletteTone
+  children: ReactNode
+}) {
+  const [hasOpened, setHasOpened] = useState(false)
+  return (
+    <Tooltip
+      onOpenChange={(open) => {
+        if (open) setHasOpened(true)
+      }}
+    >
+      <TooltipTrigger asChild>{children}</TooltipTrigger>
+      {hasOpened ? (
+        <TooltipContent
+          side="top"
+          sideOffset={12}
+          align="center"
+          collisionPadding={32}
+          avoidCollisions
+          sticky="always"
+          className="z-[120] overflow-visible border-0 bg-transparent p-0 shadow-none data-[side=bottom]:[&_[data-polaroid-single]]:top-1 data-[side=bottom]:[&_[data-polaroid-single]]:bottom-auto"
+          hideArrow
+        >
+          <VisionTooltipContent event={event} tone={tone} />
+        </TooltipContent>
+      ) : null}
+    </Tooltip>
   )
 }
 
 function EventPill({
   event,
+  tone,
   pillClassName,
   labelClassName,
   rangeClassName,
@@ -312,17 +420,22 @@ function EventPill({
   onSelect,
 }: {
   event: VisionEvent
+  tone: PaletteTone
   pillClassName: string
   labelClassName?: string
   rangeClassName?: string
   showRange?: boolean
   onSelect?: (event: VisionEvent) => void
 }) {
-  const hasImages = event.images.length > 0
+  const hasPreview = hasVisionPreview(event)
   const isInteractive = Boolean(onSelect)
   const pill = (
     <div
-      className={`${pillClassName}${isInteractive ? " cursor-pointer" : ""}`}
+      className={cn(
+        pillClassName,
+        isInteractive && "cursor-pointer",
+        event.pending && "border-dashed opacity-70",
+      )}
       tabIndex={isInteractive ? 0 : undefined}
       role={isInteractive ? "button" : undefined}
       onClick={isInteractive ? () => onSelect?.(event) : undefined}
@@ -337,7 +450,10 @@ function EventPill({
           : undefined
       }
     >
-      <span className={`h-2.5 w-2.5 rounded-full ${toneStyles[event.tone]}`} />
+      <span
+        className="h-2.5 w-2.5 rounded-full"
+        style={{ backgroundColor: tone.color }}
+      />
       <span className={labelClassName}>{event.label}</span>
       {showRange && (
         <span className={rangeClassName}>{formatEventRange(event)}</span>
@@ -345,62 +461,262 @@ function EventPill({
     </div>
   )
 
-  if (!hasImages) {
+  if (!hasPreview) {
     return <div className="inline-flex">{pill}</div>
   }
 
   return (
-    <Tooltip>
-      <TooltipTrigger asChild>{pill}</TooltipTrigger>
-      <TooltipContent
-        side="top"
-        sideOffset={12}
-        align="center"
-        collisionPadding={32}
-        avoidCollisions
-        sticky="always"
-        className="border-0 bg-transparent p-0 shadow-none z-[120] overflow-visible data-[side=bottom]:[&_[data-polaroid-single]]:top-1 data-[side=bottom]:[&_[data-polaroid-single]]:bottom-auto"
-        hideArrow
-      >
-        <VisionTooltipContent event={event} />
-      </TooltipContent>
-    </Tooltip>
+    <VisionTooltip event={event} tone={tone}>
+      {pill}
+    </VisionTooltip>
+  )
+}
+
+// One week or month row of day cells, placed by explicit grid lines so the
+// rows around it can be left out. It only re-renders when its own lanes or
+// its part of the selection change.
+const DayRow = memo(function DayRow({
+  cells,
+  row,
+  columns,
+  laneOffset,
+  todayKey,
+  tabStopKey,
+  selectionStart,
+  selectionEnd,
+}: {
+  cells: (WindowDay | null)[]
+  row: number
+  columns: number
+  laneOffset: number
+  todayKey: string
+  // Set on the row holding the grid's one focusable day.
+  tabStopKey?: string
+  selectionStart?: string
+  selectionEnd?: string
+}) {
+  return (
+    <div role="row" aria-rowindex={row} className="contents">
+      {cells.slice((row - 1) * columns, row * columns).map((day, index) => {
+        if (!day) return null
+        const dayKey = day.key
+        const isToday = dayKey === todayKey
+        const isSelected =
+          selectionStart !== undefined &&
+          selectionEnd !== undefined &&
+          dayKey >= selectionStart &&
+          dayKey <= selectionEnd
+        return (
+          <div
+            id={`year-day-${dayKey}`}
+            key={dayKey}
+            role="gridcell"
+            tabIndex={dayKey === tabStopKey ? 0 : -1}
+            data-date={dayKey}
+            aria-selected={isSelected}
+            aria-label={`${monthNames[day.monthIndex]} ${
+              day.dayNumber
+            }, ${day.date.getFullYear()}`}
+            className={[
+              "relative h-full cursor-cell overflow-hidden rounded-2xl border border-slate-200 bg-white px-2 text-left text-xs transition-[padding,transform] duration-300 ease-out select-none focus-visible:ring-2 focus-visible:ring-slate-900 focus-visible:outline-none motion-reduce:transition-none",
+              day.isWeekend
+                ? "bg-slate-50 text-slate-700 ring-1 ring-slate-200/80 ring-inset"
+                : "",
+              isToday
+                ? "-translate-y-0.5 border border-slate-900 bg-amber-50 shadow-[0_20px_44px_-22px_rgba(15,23,42,0.6)]"
+                : "",
+            ].join(" ")}
+            style={{
+              gridRow: row,
+              gridColumn: index + 1,
+              paddingTop: isToday ? Math.max(0, laneOffset - 2) : laneOffset,
+            }}
+          >
+            {isToday && (
+              <span className="pointer-events-none absolute top-2 left-2 inline-flex items-center rounded-full bg-slate-900 px-2 py-0.5 text-[9px] font-semibold tracking-[0.3em] text-amber-200 uppercase shadow-[0_8px_20px_-12px_rgba(15,23,42,0.7)]">
+                Today
+              </span>
+            )}
+            {day.isMonthStart && (
+              <span className="pointer-events-none absolute right-2 bottom-2 rounded-full bg-slate-900 px-1.5 py-0.5 text-[9px] font-semibold tracking-[0.2em] text-white uppercase">
+                {monthNames[day.monthIndex].slice(0, 3)}
+              </span>
+            )}
+            <span
+              className={`mt-4 block text-[12px] font-semibold text-slate-900 ${
+                isToday ? "text-[20px] text-slate-950" : ""
+              }`}
+              style={{
+                fontFamily: "'JetBrains Mono', monospace",
+              }}
+            >
+              {day.dayNumber}
+            </span>
+            {isToday && (
+              <span className="mt-1 block text-[10px] tracking-[0.28em] text-slate-500 uppercase">
+                {weekdayShort[day.date.getDay()]}
+              </span>
+            )}
+          </div>
+        )
+      })}
+    </div>
   )
+})
+
+function draggedRange(
+  startDate: Date,
+  endDate: Date,
+  mode: SegmentDragMode,
+  delta: number,
+) {
+  if (mode === "start") {
+    const start = addDays(startDate, delta)
+    return { startDate: start > endDate ? endDate : start, endDate }
+  }
+  if (mode === "end") {
+    const end = addDays(endDate, delta)
+    return { startDate, endDate: end < startDate ? startDate : end }
+  }
+  return {
+    startDate: addDays(startDate, delta),
+    endDate: addDays(endDate, delta),
+  }
+}
+
+const windowModeLabels: Record<PlannerWindowMode, string> = {
+  calendar: "Calendar year",
+  custom: "Custom 12 months",
+  rolling: "Next 12 months",
+  "two-year": "Two years",
+}
+
+function buildPlannerWindows(
+  mode: PlannerWindowMode,
+  year: number,
+  startMonth: number,
+  today: Date,
+): PlannerWindow[] {
+  if (mode === "custom") {
+    return [twelveMonthWindow(new Date(year, startMonth, 1))]
+  }
+  if (mode === "rolling") {
+    return [
+      twelveMonthWindow(
+        new Date(today.getFullYear(), today.getMonth(), today.getDate()),
+      ),
+    ]
+  }
+  if (mode === "two-year") {
+    return [calendarYearWindow(year), calendarYearWindow(year + 1)]
+  }
+  return [calendarYearWindow(year)]
 }
 
-function getDayOfYear(date: Date) {
-  const startOfYear = new Date(date.getFullYear(), 0, 1)
-  const diff = date.getTime() - startOfYear.getTime()
-  return Math.floor(diff / 86400000) + 1
+// The planner year whose windows show the given date.
+function windowYearFor(
+  mode: Exclude<PlannerWindowMode, "rolling">,
+  date: Date,
+  startMonth: number,
+) {
+  if (mode === "custom" && date.getMonth() < startMonth) {
+    return date.getFullYear() - 1
+  }
+  return date.getFullYear()
 }
 
-type YearlyPlannerProps = {
+interface YearlyPlannerProps {
   year?: number
+  windowMode?: PlannerWindowMode
+  windowStartMonth?: number
   events?: VisionEvent[]
-  onCreateEvent?: (event: EventPayload) => void
-  onUpdateEvent?: (eventId: VisionEvent["id"], event: EventPayload) => void
+  onCreateEvent?: (event: EventPayload, options: EventSubmitOptions) => void
+  onUpdateEvent?: (
+    eventId: VisionEvent["id"],
+    event: EventPayload,
+    options: EventSubmitOptions,
+  ) => void
+  onDeleteEvent?: (
+    eventId: VisionEvent["id"],
+    options: EventSubmitOptions,
+  ) => void
+  onArchiveEvent?: (
+    eventId: VisionEvent["id"],
+    archived: boolean,
+    options: EventSubmitOptions,
+  ) => void
+  // Undoes a delete, bringing the vision back with its images.
+  onRestoreEvent?: (
+    eventId: VisionEvent["id"],
+    options: EventSubmitOptions,
+  ) => void
+  onUploadImage?: (
+    file: File,
+    onProgress: (progress: number) => void,
+  ) => Promise<VisionImage>
+  // A null range asks for every vision, for the all-years board.
+  onWindowChange?: (year: number, range: DateRange | null) => void
+  // Searches every year; without it only the events on hand are searched.
+  onSearchEvents?: (query: string) => Promise<VisionEvent[]>
+  onImportEvents?: (events: EventPayload[], options: EventSubmitOptions) => void
+  // Where the .ics download lives; the menu item is hidden without it.
+  calendarExportUrl?: string
+  // Custom tones; the built-in tones are always available.
+  tones?: Tone[]
   heroCTA?: ReactNode
 }
 
 export default function YearlyPlanner({
-  year = 2026,
+  year = new Date().getFullYear(),
+  windowMode: initialWindowMode = "calendar",
+  windowStartMonth: initialWindowStartMonth = 8,
   events: eventsProp,
   onCreateEvent,
   onUpdateEvent,
+  onDeleteEvent,
+  onArchiveEvent,
+  onRestoreEvent,
+  onUploadImage,
+  onWindowChange,
+  onSearchEvents,
+  onImportEvents,
+  calendarExportUrl,
+  tones,
   heroCTA,
 }: YearlyPlannerProps) {
   const [activeYear, setActiveYear] = useState(year)
+  const [windowMode, setWindowMode] =
+    useState<PlannerWindowMode>(initialWindowMode)
+  const [windowStartMonth, setWindowStartMonth] = useState(
+    initialWindowStartMonth,
+  )
   const [gridColumns, setGridColumns] = useState(7)
+  const [windowsPerRow, setWindowsPerRow] = useState(1)
+  const [gridLayout, setGridLayout] = useState<GridLayout>("weeks")
   const [gridCellSize, setGridCellSize] = useState(56)
   const [isSheetOpen, setIsSheetOpen] = useState(false)
   const [viewMode, setViewMode] = useState<"calendar" | "vision">("calendar")
+  const [boardGrouping, setBoardGrouping] = useState<BoardGrouping>("month")
   const [eventTitle, setEventTitle] = useState("")
   const [eventEmoji, setEventEmoji] = useState("")
   const [eventStart, setEventStart] = useState("")
   const [eventEnd, setEventEnd] = useState("")
-  const [eventImages, setEventImages] = useState<string[]>([])
+  const [eventImages, setEventImages] = useState<SheetImage[]>([])
   const [eventDescription, setEventDescription] = useState("")
-  const [eventTone, setEventTone] = useState<PlannerEvent["tone"]>("sea")
+  const [eventTone, setEventTone] = useState<Tone["key"]>("sea")
+  const [eventCategory, setEventCategory] = useState<Category["key"] | null>(
+    null,
+  )
+  const [categoryFilter, setCategoryFilter] = useState<Category["key"] | null>(
+    null,
+  )
+  const palette = useMemo(() => buildPalette(tones), [tones])
+  const paletteByKey = useMemo(
+    () => new Map(palette.map((tone) => [tone.key, tone])),
+    [palette],
+  )
+  // Visions keep rendering if their custom tone has since been removed.
+  const toneFor = (key: Tone["key"]) => paletteByKey.get(key) ?? palette[0]
   const [useSampleEvents, setUseSampleEvents] = useState(!eventsProp)
   const [events, setEvents] = useState<VisionEvent[]>(
     eventsProp ?? createSampleEventsForYear(year),
@@ -408,53 +724,101 @@ export default function YearlyPlanner({
   const [editingEventId, setEditingEventId] = useState<
     VisionEvent["id"] | null
   >(null)
+  const [formErrors, setFormErrors] = useState<EventErrors>({})
+  const [daySelection, setDaySelection] = useState<DaySelection | null>(null)
+  // Set while a mouse or pen drag draws a range, so plain hovering never
+  // changes the selection and only a drag's release commits it.
+  const pointerDragRef = useRef(false)
+  // The day cell that takes focus when tabbing into the grid.
+  const [focusedDate, setFocusedDate] = useState<string | null>(null)
+  const focusCellRef = useRef(false)
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
+  const [jumpTarget, setJumpTarget] = useState<VisionEvent | null>(null)
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
+  // Rows of each window's grid near the viewport, by window key.
+  const [visibleRows, setVisibleRows] = useState<Map<string, RowRange>>(
+    new Map(),
+  )
+  const [segmentDrag, setSegmentDrag] = useState<SegmentDrag | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // Creates and updates sent to the server but not confirmed yet, layered
+  // over the events so they show up straight away.
+  const [optimisticEvents, setOptimisticEvents] = useState<VisionEvent[]>([])
+  const windowCount = windowMode === "two-year" ? 2 : 1
+  const layoutColumns = gridLayout === "months" ? 31 : gridColumns
   const yearGridRef = useRef<HTMLDivElement | null>(null)
-  const isSubmitDisabled = !eventTitle.trim() || !eventStart || !eventEnd
+  const dayGridRefs = useRef(new Map<string, HTMLDivElement | null>())
+  const suppressSegmentClickRef = useRef(false)
+  const isUploadingImages = eventImages.some(
+    (image) => !image.id && !image.error,
+  )
+  const isSubmitDisabled =
+    isSubmitting ||
+    isUploadingImages ||
+    !eventTitle.trim() ||
+    !eventStart ||
+    !eventEnd
+
+  const plannerEvents = useMemo(() => {
+    if (!optimisticEvents.length) return events
+    const optimisticById = new Map(
+      optimisticEvents.map((event) => [event.id, event]),
+    )
+    const knownIds = new Set(events.map((event) => event.id))
+    return [
+      ...events.map((event) => optimisticById.get(event.id) ?? event),
+      ...optimisticEvents.filter((event) => !knownIds.has(event.id)),
+    ]
+  }, [events, optimisticEvents])
 
   const eventDates = useMemo(() => {
-    return events.map((event) => ({
+    return plannerEvents.map((event) => ({
       ...event,
       startDate: toDate(event.start),
       endDate: toDate(event.end),
     }))
-  }, [events])
+  }, [plannerEvents])
 
   useEffect(() => {
     setActiveYear(year)
   }, [year])
 
-  useEffect(() => {
-    if (eventsProp) {
-      setEvents(eventsProp)
-      setUseSampleEvents(false)
-      return
-    }
-    if (useSampleEvents) {
-      setEvents(createSampleEventsForYear(activeYear))
-    }
-  }, [eventsProp, activeYear, useSampleEvents])
-
   useEffect(() => {
     const container = yearGridRef.current
     if (!container || typeof ResizeObserver === "undefined") return
     const observer = new ResizeObserver((entries) => {
-      const width = entries[0]?.contentRect?.width ?? 0
       const minWeekWidth = 66 * 7
+      const containerWidth = entries[0]?.contentRect?.width ?? 0
+      // Side-by-side years only when each still fits a full week.
+      const perRow =
+        windowCount > 1 && containerWidth >= windowCount * minWeekWidth
+          ? windowCount
+          : 1
+      const width = (containerWidth - (perRow - 1) * 24) / perRow
       const weekGroups = Math.max(1, Math.floor(width / minWeekWidth))
       const columns = weekGroups * 7
       const rawCell = width > 0 ? width / columns : 56
       const clampedCell = Math.max(44, Math.min(70, Math.floor(rawCell)))
-      setGridColumns(columns)
-      setGridCellSize(clampedCell)
+      // Relaying out the grid can wait on input while the window is resized.
+      startTransition(() => {
+        setWindowsPerRow(perRow)
+        setGridColumns(columns)
+        setGridCellSize(clampedCell)
+      })
     })
     observer.observe(container)
     return () => observer.disconnect()
-  }, [])
+  }, [windowCount])
 
   useEffect(() => {
     const handler = (event: KeyboardEvent) => {
       const target = event.target as HTMLElement | null
-      if (!target) return
+      if (!target || event.defaultPrevented) return
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault()
+        setIsSearchOpen(true)
+        return
+      }
       if (
         target.tagName === "INPUT" ||
         target.tagName === "TEXTAREA" ||
@@ -463,6 +827,10 @@ export default function YearlyPlanner({
       ) {
         return
       }
+      if (event.key === "Escape") {
+        setDaySelection(null)
+        setSegmentDrag(null)
+      }
       if (event.key === "ArrowLeft") {
         setActiveYear((prev) => prev - 1)
       }
@@ -481,16 +849,24 @@ export default function YearlyPlanner({
     setEventEnd("")
     setEventImages([])
     setEventDescription("")
-    setEventTone(toneOrder[events.length % toneOrder.length] ?? "sea")
+    setEventTone(palette[plannerEvents.length % palette.length].key)
+    setEventCategory(null)
+    setFormErrors({})
+    setIsSubmitting(false)
   }
 
-  const openCreateSheet = () => {
+  const openCreateSheet = (range?: { start: string; end: string }) => {
     setEditingEventId(null)
     resetForm()
+    if (range) {
+      setEventStart(range.start)
+      setEventEnd(range.end)
+    }
     setIsSheetOpen(true)
   }
 
   const openEditSheet = (event: VisionEvent) => {
+    if (event.pending) return
     const { emoji, text } = splitEventLabel(event.label)
     setUseSampleEvents(false)
     setEditingEventId(event.id)
@@ -498,9 +874,18 @@ export default function YearlyPlanner({
     setEventEmoji(emoji)
     setEventStart(event.start)
     setEventEnd(event.end)
-    setEventImages(event.images)
+    setEventImages(
+      event.images.map((image) => ({
+        ...image,
+        key: image.id,
+        url: previewUrl(image),
+        progress: 1,
+      })),
+    )
     setEventDescription(event.description ?? "")
     setEventTone(event.tone)
+    setEventCategory(event.category ?? null)
+    setFormErrors({})
     setIsSheetOpen(true)
   }
 
@@ -512,257 +897,878 @@ export default function YearlyPlanner({
     }
   }
 
-  const spannedEvents = useMemo(() => eventDates, [eventDates])
-
-  const daysInYear = useMemo(
-    () => (isLeapYear(activeYear) ? 366 : 365),
-    [activeYear],
-  )
+  const closeSheet = () => {
+    setEditingEventId(null)
+    resetForm()
+    setIsSheetOpen(false)
+  }
 
-  const yearStart = useMemo(() => new Date(activeYear, 0, 1), [activeYear])
-  const yearStartOffset = useMemo(() => yearStart.getDay(), [yearStart])
-  const totalCells = useMemo(
-    () => yearStartOffset + daysInYear,
-    [daysInYear, yearStartOffset],
-  )
-  const trailingCells = useMemo(
-    () => (gridColumns - (totalCells % gridColumns)) % gridColumns,
-    [gridColumns, totalCells],
-  )
-  const gridCells = useMemo(
-    () => totalCells + trailingCells,
-    [totalCells, trailingCells],
-  )
-  const weekRows = useMemo(
-    () => Math.ceil(gridCells / gridColumns),
-    [gridCells, gridColumns],
-  )
+  const submitOptions: EventSubmitOptions = {
+    onSuccess: closeSheet,
+    onError: (errors) => {
+      setFormErrors(errors)
+      setIsSubmitting(false)
+    },
+  }
 
-  const yearGrid = useMemo(() => {
-    return Array.from({ length: gridCells }, (_, index) => {
-      const dayOfYear = index - yearStartOffset + 1
-      if (dayOfYear < 1 || dayOfYear > daysInYear) {
-        return null
-      }
-      const date = new Date(activeYear, 0, dayOfYear)
-      return {
-        date,
-        dayNumber: date.getDate(),
-        monthIndex: date.getMonth(),
-        isMonthStart: date.getDate() === 1,
-        isWeekend: date.getDay() === 0 || date.getDay() === 6,
-      }
+  const editingEvent = editingEventId
+    ? plannerEvents.find((item) => item.id === editingEventId)
+    : undefined
+
+  // Shows a create or update straight away, then drops the optimistic copy
+  // once the server has answered: the saved vision arrives with the events
+  // (under its persisted id for a create), or the change is rolled back.
+  const saveOptimistically = (
+    event: VisionEvent,
+    submit: (options: EventSubmitOptions) => void,
+    failureMessage: string,
+  ) => {
+    const optimistic = { ...event, pending: true }
+    setOptimisticEvents((prev) => [
+      ...prev.filter((item) => item.id !== optimistic.id),
+      optimistic,
+    ])
+    const settle = () =>
+      setOptimisticEvents((prev) => prev.filter((item) => item !== optimistic))
+    submit({
+      onSuccess: (saved) => {
+        settle()
+        if (!saved || saved.id === optimistic.id) return
+        setEditingEventId((current) =>
+          current === optimistic.id ? saved.id : current,
+        )
+        setJumpTarget((current) =>
+          current?.id === optimistic.id ? saved : current,
+        )
+      },
+      onError: (errors) => {
+        settle()
+        toast.error(failureMessage, {
+          description: Object.values(errors).flat()[0] ?? event.label,
+        })
+      },
     })
-  }, [daysInYear, gridCells, activeYear, yearStartOffset])
-
-  const yearWeekSegments = useMemo(() => {
-    const yearEnd = new Date(activeYear, 11, 31)
-    const rawSegments = spannedEvents
-      .map((event) => {
-        if (event.endDate < yearStart || event.startDate > yearEnd) {
-          return null
-        }
-        const startDate = event.startDate < yearStart ? yearStart : event.startDate
-        const endDate = event.endDate > yearEnd ? yearEnd : event.endDate
-        const startDay = getDayOfYear(startDate)
-        const endDay = getDayOfYear(endDate)
-        const startIndex = yearStartOffset + startDay - 1
-        const endIndex = yearStartOffset + endDay - 1
-        const segments: EventSegment[] = []
-        let currentIndex = startIndex
-        while (currentIndex <= endIndex) {
-          const row = Math.floor(currentIndex / gridColumns)
-          const rowEnd = row * gridColumns + (gridColumns - 1)
-          const segmentEnd = Math.min(endIndex, rowEnd)
-          const span = segmentEnd - currentIndex + 1
-          const colStart = (currentIndex % gridColumns) + 1
-          const colEnd = colStart + span - 1
-          segments.push({
-            id: event.id,
-            label: event.label,
-            tone: event.tone,
-            startDay,
-            endDay,
-            row: row + 1,
-            colStart,
-            span,
-            colEnd,
-            createdAt: event.createdAt ?? 0,
+  }
+
+  const restoreDeletedEvent = (deletedEvent: VisionEvent) => {
+    if (onRestoreEvent) {
+      onRestoreEvent(deletedEvent.id, {
+        onSuccess: () => undefined,
+        onError: (errors) => {
+          toast.error("Could not restore this vision", {
+            description: errors.base?.[0],
           })
-          currentIndex = segmentEnd + 1
-        }
-        return segments
-      })
-      .flat()
-      .filter((segment): segment is EventSegment => Boolean(segment))
-
-    const segmentsByRow = new Map<number, number[]>()
-    const stackedSegments = rawSegments
-      .sort((a, b) => {
-        if (a.row !== b.row) return a.row - b.row
-        if (a.colStart !== b.colStart) return a.colStart - b.colStart
-        return b.createdAt - a.createdAt
+        },
       })
-      .map((segment) => {
-        const existing = segmentsByRow.get(segment.row) ?? []
-        let stackIndex = existing.findIndex((end) => segment.colStart > end)
-        if (stackIndex === -1) {
-          stackIndex = existing.length
-          existing.push(segment.colEnd)
-        } else {
-          existing[stackIndex] = segment.colEnd
-        }
-        segmentsByRow.set(segment.row, existing)
-        return { ...segment, stackIndex }
+      return
+    }
+    setEvents((prev) => [...prev, deletedEvent])
+  }
+
+  const handleDeleteEvent = () => {
+    const deletedEvent = editingEvent
+    if (!deletedEvent) return
+    const onSuccess = () => {
+      closeSheet()
+      toast("Vision deleted", {
+        description: deletedEvent.label,
+        action: {
+          label: "Undo",
+          onClick: () => restoreDeletedEvent(deletedEvent),
+        },
       })
+    }
+    if (onDeleteEvent) {
+      setIsSubmitting(true)
+      onDeleteEvent(deletedEvent.id, { ...submitOptions, onSuccess })
+      return
+    }
+    setEvents((prev) => prev.filter((item) => item.id !== deletedEvent.id))
+    onSuccess()
+  }
 
-    const maxStackByRow = Array.from({ length: weekRows }, (_, index) => {
-      const stacks = segmentsByRow.get(index + 1)
-      return stacks ? stacks.length : 0
-    })
+  const handleArchiveToggle = () => {
+    if (!editingEvent) return
+    const archived = !editingEvent.archived
+    if (onArchiveEvent) {
+      setIsSubmitting(true)
+      onArchiveEvent(editingEvent.id, archived, submitOptions)
+      return
+    }
+    setEvents((prev) =>
+      prev.map((item) =>
+        item.id === editingEvent.id ? { ...item, archived } : item,
+      ),
+    )
+    closeSheet()
+  }
 
-    return { segments: stackedSegments, maxStackByRow }
-  }, [
-    activeYear,
-    gridColumns,
-    spannedEvents,
-    yearStart,
-    yearStartOffset,
-    daysInYear,
-    weekRows,
-  ])
-
-  const yearDayIds = useMemo(
-    () =>
-      yearGrid
-        .filter((day) => Boolean(day))
-        .map((day) => `year-day-${formatDateKey((day as { date: Date }).date)}`),
-    [yearGrid],
+  const spannedEvents = useMemo(
+    () => eventDates.filter((event) => !event.archived),
+    [eventDates],
   )
 
-  const yearEventRowHeight = 32
-  const yearEventRowGap = 8
-
   const todayDate = useMemo(() => new Date(), [])
   const todayKey = useMemo(() => formatDateKey(todayDate), [todayDate])
 
-  const maxEventStack = useMemo(
-    () => Math.max(0, ...yearWeekSegments.maxStackByRow),
-    [yearWeekSegments.maxStackByRow],
+  const plannerWindows = useMemo(
+    () =>
+      buildPlannerWindows(windowMode, activeYear, windowStartMonth, todayDate),
+    [activeYear, todayDate, windowMode, windowStartMonth],
   )
 
-  const yearEventOffset =
-    maxEventStack > 0
-      ? maxEventStack * yearEventRowHeight +
-        (maxEventStack - 1) * yearEventRowGap
-      : 0
-
-  const weekRowHeights = useMemo(() => {
-    const dayCellHeight = Math.max(64, Math.round(gridCellSize * 2.3))
-    const rowHeight = dayCellHeight + yearEventOffset
-    return Array.from({ length: weekRows }, () => `${rowHeight}px`)
-  }, [gridCellSize, weekRows, yearEventOffset])
+  const windowLayouts = useMemo(
+    () =>
+      plannerWindows.map((window) =>
+        layoutWindow(window, spannedEvents, layoutColumns, gridLayout),
+      ),
+    [gridLayout, layoutColumns, plannerWindows, spannedEvents],
+  )
 
-  const handleImageChange = async (event: ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(event.target.files ?? [])
-    if (!files.length) {
-      setEventImages([])
-      return
-    }
-    const previews = await Promise.all(
-      files.map(
-        (file) =>
-          new Promise<string>((resolve, reject) => {
-            const reader = new FileReader()
-            reader.onload = () => resolve(String(reader.result))
-            reader.onerror = () => reject(reader.error)
-            reader.readAsDataURL(file)
-          }),
+  // The legend counts the visions drawn in the current windows. Filtering
+  // only hides segments, so the stacked rows keep their layout.
+  const categoryCounts = useMemo(() => {
+    const drawn = new Set(
+      windowLayouts.flatMap((layout) =>
+        layout.segments.map((segment) => segment.id),
       ),
     )
-    setEventImages(previews)
-  }
+    const counts = new Map<Category["key"], number>()
+    spannedEvents.forEach((event) => {
+      if (!drawn.has(event.id)) return
+      const key = categoryKeyFor(event.category)
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    })
+    return counts
+  }, [spannedEvents, windowLayouts])
 
-  const handleEventSubmit = (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault()
-    if (!eventTitle.trim() || !eventStart || !eventEnd) return
-    const startDate = toDate(eventStart)
-    const endDate = toDate(eventEnd)
-    const start =
-      startDate.getTime() <= endDate.getTime() ? startDate : endDate
-    const end =
-      startDate.getTime() <= endDate.getTime() ? endDate : startDate
-    const label = `${eventEmoji.trim()} ${eventTitle.trim()}`.trim()
-    const payload: EventPayload = {
-      label,
-      start: formatDateKey(start),
-      end: formatDateKey(end),
-      tone: eventTone,
-      images: eventImages,
-      description: eventDescription.trim(),
-    }
-    if (editingEventId) {
-      if (onUpdateEvent) {
-        onUpdateEvent(editingEventId, payload)
-      } else {
-        setEvents((prev) =>
-          prev.map((item) =>
-            item.id === editingEventId ? { ...item, ...payload } : item,
+  const legendCategories = useMemo(
+    () =>
+      categoryCounts.has(uncategorized.key)
+        ? [...categories, uncategorized]
+        : categories,
+    [categoryCounts],
+  )
+
+  const isFilteredOut = (event: Pick<VisionEvent, "category">) =>
+    categoryFilter !== null && categoryKeyFor(event.category) !== categoryFilter
+
+  const searchEvents = (query: string) =>
+    onSearchEvents
+      ? onSearchEvents(query)
+      : Promise.resolve(
+          plannerEvents.filter(
+            (event) => !event.archived && matchesSearch(event, query),
           ),
         )
-      }
-    } else if (onCreateEvent) {
-      onCreateEvent(payload)
-    } else {
-      setUseSampleEvents(false)
-      const createdAt = Date.now()
-      setEvents((prev) => [
-        ...prev,
-        {
-          id: `event-${createdAt}`,
-          createdAt,
-          ...payload,
-        },
-      ])
+
+  // Only moves the planner when the vision starts outside the windows on
+  // screen. The rolling window cannot move, so it gives way to the calendar.
+  const jumpToEvent = (event: VisionEvent) => {
+    const startDate = toDate(event.start)
+    const isOnScreen = plannerWindows.some(
+      (window) => startDate >= window.start && startDate <= window.end,
+    )
+    if (!isOnScreen) {
+      const mode = windowMode === "rolling" ? "calendar" : windowMode
+      setWindowMode(mode)
+      setActiveYear(windowYearFor(mode, startDate, windowStartMonth))
     }
-    setEditingEventId(null)
-    resetForm()
-    setIsSheetOpen(false)
+    if (isFilteredOut(event)) {
+      setCategoryFilter(null)
+    }
+    setIsSearchOpen(false)
+    setViewMode("calendar")
+    setJumpTarget(event)
   }
 
-  const weekdayLabels = useMemo(
-    () =>
-      Array.from({ length: gridColumns }, (_, index) => weekdayShort[index % 7]),
-    [gridColumns],
+  const isJumpTargetDrawn = Boolean(
+    jumpTarget &&
+    windowLayouts.some((layout) =>
+      layout.segments.some((segment) => segment.id === jumpTarget.id),
+    ),
   )
-  const eventById = useMemo(
-    () => new Map(spannedEvents.map((event) => [event.id, event])),
-    [spannedEvents],
+
+  useEffect(() => {
+    if (!jumpTarget) return
+    document
+      .getElementById(`year-day-${jumpTarget.start}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" })
+  }, [jumpTarget])
+
+  // The pulse runs once the segment is drawn, which can wait on the events
+  // for a newly loaded window.
+  useEffect(() => {
+    if (!jumpTarget) return
+    const timeout = window.setTimeout(
+      () => setJumpTarget(null),
+      isJumpTargetDrawn ? 2400 : 8000,
+    )
+    return () => window.clearTimeout(timeout)
+  }, [jumpTarget, isJumpTargetDrawn])
+
+  useEffect(() => {
+    if (eventsProp) {
+      setEvents(eventsProp)
+      setUseSampleEvents(false)
+      return
+    }
+    if (useSampleEvents) {
+      const firstYear = plannerWindows[0].start.getFullYear()
+      const lastYear =
+        plannerWindows[plannerWindows.length - 1].end.getFullYear()
+      setEvents(
+        Array.from({ length: lastYear - firstYear + 1 }, (_, index) =>
+          createSampleEventsForYear(firstYear + index),
+        ).flat(),
+      )
+    }
+  }, [eventsProp, plannerWindows, useSampleEvents])
+
+  const windowRange = useMemo(
+    () => ({
+      start: formatDateKey(plannerWindows[0].start),
+      end: formatDateKey(plannerWindows[plannerWindows.length - 1].end),
+    }),
+    [plannerWindows],
   )
-  const sortedVisionEvents = useMemo(() => {
-    return [...spannedEvents].sort(
-      (a, b) => a.startDate.getTime() - b.startDate.getTime(),
+
+  const onWindowChangeRef = useRef(onWindowChange)
+  useEffect(() => {
+    onWindowChangeRef.current = onWindowChange
+  })
+
+  const showsAllYears = viewMode === "vision" && boardGrouping === "year"
+
+  useEffect(() => {
+    onWindowChangeRef.current?.(activeYear, showsAllYears ? null : windowRange)
+  }, [activeYear, showsAllYears, windowRange])
+
+  const windowTitle =
+    plannerWindows.length > 1
+      ? `${plannerWindows[0].title}–${plannerWindows[plannerWindows.length - 1].title}`
+      : plannerWindows[0].title
+
+  const windowDays = windowLayouts.reduce(
+    (total, layout) => total + layout.days,
+    0,
+  )
+
+  const selectionRange = useMemo(() => {
+    if (!daySelection) return null
+    const [start, end] = [
+      daySelection.anchorDate,
+      daySelection.currentDate,
+    ].sort()
+    return {
+      start,
+      end,
+      startDate: toDate(start),
+      endDate: toDate(end),
+      days: daysBetween(toDate(start), toDate(end)) + 1,
+    }
+  }, [daySelection])
+
+  const dateFromElement = (element: Element | null) =>
+    element?.closest<HTMLElement>("[data-date]")?.dataset.date ?? null
+
+  const handleGridPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    // Touch keeps scrolling the page; ranges are drawn with a mouse or pen.
+    if (event.button !== 0 || event.pointerType === "touch") return
+    const date = dateFromElement(event.target as Element)
+    if (!date) return
+    event.preventDefault()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    pointerDragRef.current = true
+    setDaySelection({ anchorDate: date, currentDate: date })
+    setFocusedDate(date)
+  }
+
+  const handleGridPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!pointerDragRef.current || !daySelection) return
+    const date = dateFromElement(
+      document.elementFromPoint(event.clientX, event.clientY),
     )
-  }, [spannedEvents])
-  return (
-    <>
-      <section className="relative w-full overflow-visible px-4 py-6 sm:px-8 sm:py-10">
-        <div className="pointer-events-none absolute inset-0 overflow-hidden">
-          <div className="absolute -right-20 -top-32 h-64 w-64 rounded-full bg-[radial-gradient(circle_at_center,rgba(107,181,197,0.45),rgba(255,255,255,0))]" />
-          <div className="absolute -left-24 -bottom-32 h-72 w-72 rounded-full bg-[radial-gradient(circle_at_center,rgba(242,183,141,0.45),rgba(255,255,255,0))]" />
-        </div>
+    if (date && date !== daySelection.currentDate) {
+      setDaySelection({ ...daySelection, currentDate: date })
+    }
+  }
 
-        <div className="relative z-10">
-          <div className="flex flex-col items-center text-center">
-            <p className="text-xs uppercase tracking-[0.35em] text-slate-500">
-              Life Planner
-            </p>
-            <h1
-              className="mt-3 text-5xl font-semibold text-slate-950 sm:text-7xl lg:text-8xl"
-              style={{ fontFamily: "'Fraunces', serif" }}
-            >
-              {activeYear}
-            </h1>
+  const handleGridPointerUp = () => {
+    if (!pointerDragRef.current) return
+    pointerDragRef.current = false
+    if (!selectionRange) return
+    setDaySelection(null)
+    openCreateSheet({ start: selectionRange.start, end: selectionRange.end })
+  }
+
+  const firstGridDay = formatDateKey(plannerWindows[0].start)
+  const lastGridDay = formatDateKey(
+    plannerWindows[plannerWindows.length - 1].end,
+  )
+  const isInGrid = (key: string) => key >= firstGridDay && key <= lastGridDay
+  // Focus starts on today, or on the first day when today isn't shown, and
+  // falls back there when the windows move away from the focused day.
+  const tabStopDate =
+    focusedDate && isInGrid(focusedDate)
+      ? focusedDate
+      : isInGrid(todayKey)
+        ? todayKey
+        : firstGridDay
+
+  // Only moves focus for keyboard navigation, so a click elsewhere or a
+  // change of window never pulls it back into the grid.
+  useEffect(() => {
+    if (!focusCellRef.current) return
+    focusCellRef.current = false
+    document.getElementById(`year-day-${tabStopDate}`)?.focus()
+  }, [tabStopDate])
+
+  const handleGridKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    const date = dateFromElement(event.target as Element)
+    if (!date) return
+    if (event.key === "Enter") {
+      event.preventDefault()
+      setDaySelection(null)
+      openCreateSheet(
+        selectionRange
+          ? { start: selectionRange.start, end: selectionRange.end }
+          : { start: date, end: date },
+      )
+      return
+    }
+    const target = gridKeyTarget(
+      event.key,
+      toDate(date),
+      {
+        columns: layoutColumns,
+        gridLayout,
+        first: plannerWindows[0].start,
+        last: plannerWindows[plannerWindows.length - 1].end,
+      },
+      event.ctrlKey || event.metaKey,
+    )
+    if (!target) return
+    // Also keeps the arrows from switching years.
+    event.preventDefault()
+    const key = formatDateKey(target)
+    setDaySelection(
+      event.shiftKey
+        ? { anchorDate: daySelection?.anchorDate ?? date, currentDate: key }
+        : null,
+    )
+    if (key !== date) {
+      focusCellRef.current = true
+      setFocusedDate(key)
+    }
+  }
+
+  const dayCellHeight = Math.max(64, Math.round(gridCellSize * 2.3))
+
+  // Each row is only as tall as its own lanes. A row holding the vision
+  // being jumped to opens up so the vision isn't hidden behind its chip.
+  const windowRows = useMemo(() => {
+    const metrics = { laneHeight: yearEventRowHeight, laneGap: yearEventRowGap }
+    return windowLayouts.map((layout) => {
+      const expanded = new Set(
+        layout.segments
+          .filter(
+            (segment) =>
+              segment.id === jumpTarget?.id ||
+              expandedRows.has(
+                laneRowKey(gridLayout, layout.window, segment.row),
+              ),
+          )
+          .map((segment) => segment.row),
+      )
+      const overflow = rowOverflow(layout, maxVisibleLanes, expanded)
+      const lanes = overflow.map((row) => row.lanes)
+      const heights = rowHeights(lanes, dayCellHeight, metrics)
+      return {
+        overflow,
+        heights,
+        offsets: lanes.map((count) => stackHeight(count, metrics)),
+        template: heights.map((height) => `${height}px`).join(" "),
+      }
+    })
+  }, [dayCellHeight, expandedRows, gridLayout, jumpTarget, windowLayouts])
+
+  // Only the rows near the viewport are drawn; the others keep their height
+  // in the grid template, so the page doesn't shift as they come and go.
+  useLayoutEffect(() => {
+    let frame = 0
+    const measure = () => {
+      frame = 0
+      const next = new Map<string, RowRange>()
+      windowLayouts.forEach((layout, index) => {
+        const grid = dayGridRefs.current.get(layout.window.key)
+        if (!grid) return
+        const { top } = grid.getBoundingClientRect()
+        next.set(
+          layout.window.key,
+          visibleRowRange(
+            windowRows[index].heights,
+            dayGridGap,
+            -top,
+            window.innerHeight - top,
+            overscanRows,
+          ),
+        )
+      })
+      setVisibleRows((prev) =>
+        prev.size === next.size &&
+        [...next].every(([key, range]) => {
+          const current = prev.get(key)
+          return current?.first === range.first && current.last === range.last
+        })
+          ? prev
+          : next,
+      )
+    }
+    const scheduleMeasure = () => {
+      if (!frame) frame = window.requestAnimationFrame(measure)
+    }
+    measure()
+    // Captured so scrolling any container around the grid is seen too.
+    document.addEventListener("scroll", scheduleMeasure, {
+      capture: true,
+      passive: true,
+    })
+    window.addEventListener("resize", scheduleMeasure)
+    return () => {
+      window.cancelAnimationFrame(frame)
+      document.removeEventListener("scroll", scheduleMeasure, {
+        capture: true,
+      })
+      window.removeEventListener("resize", scheduleMeasure)
+    }
+  }, [viewMode, windowLayouts, windowRows])
+
+  // Where a day sits in a window's grid; undefined outside the window.
+  const dayPosition = (layout: WindowLayout, key: string) => {
+    const date = toDate(key)
+    return windowRowSpans(
+      layout.window,
+      date,
+      date,
+      layoutColumns,
+      gridLayout,
+    )[0]
+  }
+
+  // The rows holding the focusable day and the vision being jumped to are
+  // always drawn, so there is a cell to tab or scroll to.
+  const isRowDrawn = (layout: WindowLayout, row: number) => {
+    const range = visibleRows.get(layout.window.key)
+    if (range && row >= range.first && row <= range.last) return true
+    return [tabStopDate, jumpTarget?.start].some(
+      (key) => key !== undefined && dayPosition(layout, key)?.row === row,
+    )
+  }
+
+  // Visions and the overflow chip over the focusable day follow it in the
+  // tab order; the others are reached by moving through the days.
+  const isOnTabStop = (layout: WindowLayout, span: GridRowSpan) => {
+    const position = dayPosition(layout, tabStopDate)
+    return (
+      position?.row === span.row &&
+      span.colStart <= position.colStart &&
+      position.colStart <= span.colEnd
+    )
+  }
+
+  const toggleLaneRow = (window: PlannerWindow, row: number) => {
+    const key = laneRowKey(gridLayout, window, row)
+    setExpandedRows((prev) => {
+      const next = new Set(prev)
+      if (!next.delete(key)) next.add(key)
+      return next
+    })
+  }
+
+  const updateSheetImage = (key: string, changes: Partial<SheetImage>) => {
+    setEventImages((prev) =>
+      prev.map((image) =>
+        image.key === key ? { ...image, ...changes } : image,
+      ),
+    )
+  }
+
+  const uploadSheetImage = async (image: SheetImage, file: File) => {
+    try {
+      const { full, thumbnail } = await prepareImage(file)
+      if (!onUploadImage) {
+        const url = URL.createObjectURL(full)
+        const thumbnailUrl = URL.createObjectURL(thumbnail)
+        URL.revokeObjectURL(image.url)
+        updateSheetImage(image.key, {
+          id: url,
+          url,
+          thumbnailId: thumbnailUrl,
+          thumbnailUrl,
+          progress: 1,
+        })
+        return
+      }
+      // The full image dominates the transfer, so it drives most of the bar.
+      const uploaded = await onUploadImage(full, (progress) =>
+        updateSheetImage(image.key, { progress: progress * 0.85 }),
+      )
+      const uploadedThumbnail = await onUploadImage(thumbnail, (progress) =>
+        updateSheetImage(image.key, { progress: 0.85 + progress * 0.15 }),
+      )
+      // The preview now loads from the upload, so the local copy can go.
+      URL.revokeObjectURL(image.url)
+      updateSheetImage(image.key, {
+        id: uploaded.id,
+        url: uploaded.url,
+        thumbnailId: uploadedThumbnail.id,
+        thumbnailUrl: uploadedThumbnail.url,
+        progress: 1,
+      })
+    } catch {
+      updateSheetImage(image.key, { error: "Upload failed" })
+    }
+  }
+
+  const handleImageChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ""
+    if (!files.length) return
+    const remaining = Math.max(0, maxEventImages - eventImages.length)
+    if (files.length > remaining) {
+      setFormErrors((prev) => ({
+        ...prev,
+        images: [`You can attach up to ${maxEventImages} images.`],
+      }))
+    }
+    const accepted = files.slice(0, remaining)
+    const addedAt = Date.now()
+    const added = accepted.map((file, index) => ({
+      key: `${addedAt}-${index}-${file.name}`,
+      url: URL.createObjectURL(file),
+      progress: 0,
+    }))
+    setEventImages((prev) => [...prev, ...added])
+    added.forEach((image, index) => {
+      void uploadSheetImage(image, accepted[index])
+    })
+  }
+
+  const removeSheetImage = (key: string) => {
+    const removed = eventImages.find((image) => image.key === key)
+    // A local preview still waiting on its upload is only held by the sheet.
+    // Without uploads the finished preview is the image itself and may
+    // belong to a saved vision, so it stays.
+    if (removed?.url.startsWith("blob:") && removed.url !== removed.id) {
+      URL.revokeObjectURL(removed.url)
+    }
+    setEventImages((prev) => prev.filter((image) => image.key !== key))
+    setFormErrors((prev) => ({ ...prev, images: undefined }))
+  }
+
+  const handleEventSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!eventTitle.trim() || !eventStart || !eventEnd) return
+    const startDate = toDate(eventStart)
+    const endDate = toDate(eventEnd)
+    const start = startDate.getTime() <= endDate.getTime() ? startDate : endDate
+    const end = startDate.getTime() <= endDate.getTime() ? endDate : startDate
+    const label = `${eventEmoji.trim()} ${eventTitle.trim()}`.trim()
+    const payload: EventPayload = {
+      label,
+      start: formatDateKey(start),
+      end: formatDateKey(end),
+      tone: eventTone,
+      category: eventCategory,
+      images: eventImages.flatMap(({ id, thumbnailId }) =>
+        id ? [{ id, thumbnailId }] : [],
+      ),
+      description: eventDescription.trim(),
+    }
+    const images = eventImages.flatMap(
+      ({ id, url, thumbnailId, thumbnailUrl }) =>
+        id ? [{ id, url, thumbnailId, thumbnailUrl }] : [],
+    )
+    // The sheet closes straight away; a rejected save is rolled back with a
+    // toast, the same as a dragged change.
+    if (editingEventId) {
+      if (onUpdateEvent && editingEvent) {
+        saveOptimistically(
+          { ...editingEvent, ...payload, images },
+          (options) => onUpdateEvent(editingEventId, payload, options),
+          "Could not save this vision",
+        )
+      } else {
+        setEvents((prev) =>
+          prev.map((item) =>
+            item.id === editingEventId ? { ...item, ...payload, images } : item,
+          ),
+        )
+      }
+    } else if (onCreateEvent) {
+      const createdAt = Date.now()
+      saveOptimistically(
+        { id: `pending-${createdAt}`, createdAt, ...payload, images },
+        (options) => onCreateEvent(payload, options),
+        "Could not add this vision",
+      )
+    } else {
+      setUseSampleEvents(false)
+      const createdAt = Date.now()
+      setEvents((prev) => [
+        ...prev,
+        {
+          id: `event-${createdAt}`,
+          createdAt,
+          ...payload,
+          images,
+        },
+      ])
+    }
+    closeSheet()
+  }
+
+  const columnLabels = useMemo(
+    () =>
+      Array.from({ length: layoutColumns }, (_, index) =>
+        gridLayout === "months" ? `${index + 1}` : weekdayShort[index % 7],
+      ),
+    [gridLayout, layoutColumns],
+  )
+  const eventById = useMemo(
+    () => new Map(spannedEvents.map((event) => [event.id, event])),
+    [spannedEvents],
+  )
+
+  // The poster mirrors the grid on screen, including the category filter.
+  const buildPoster = (): Poster => ({
+    title: windowTitle,
+    subtitle: `${windowDays} days · ${eventById.size} visions`,
+    columns: layoutColumns,
+    columnLabels,
+    windows: windowLayouts.map((layout) => ({
+      title: layout.window.title,
+      rows: layout.weekRows,
+      cells: layout.cells.map(
+        (day) =>
+          day && {
+            dayNumber: day.dayNumber,
+            monthLabel: day.isMonthStart
+              ? monthNames[day.monthIndex].slice(0, 3)
+              : undefined,
+            isWeekend: day.isWeekend,
+          },
+      ),
+      segments: layout.segments.flatMap((segment) => {
+        const event = eventById.get(segment.id)
+        if (!event || isFilteredOut(event)) return []
+        const tone = toneFor(segment.tone)
+        const [image] = event.images
+        return [
+          {
+            row: segment.row - 1,
+            colStart: segment.colStart,
+            span: segment.span,
+            lane: segment.stackIndex,
+            label: segment.label,
+            color: tone.color,
+            textColor: tone.text,
+            isStart: segment.isStart,
+            isEnd: segment.isEnd,
+            thumbnailUrl: image ? previewUrl(image) : undefined,
+          },
+        ]
+      }),
+    })),
+  })
+
+  const importEvents = (
+    payloads: EventPayload[],
+    options: EventSubmitOptions,
+  ) => {
+    if (onImportEvents) {
+      onImportEvents(payloads, options)
+      return
+    }
+    setUseSampleEvents(false)
+    const createdAt = Date.now()
+    setEvents((prev) => [
+      ...prev,
+      ...payloads.map((payload, index) => ({
+        ...payload,
+        id: `event-${createdAt}-${index}`,
+        createdAt,
+        images: [],
+      })),
+    ])
+    options.onSuccess()
+  }
+
+  const segmentGhost = useMemo(() => {
+    const event = segmentDrag ? eventById.get(segmentDrag.eventId) : undefined
+    if (!segmentDrag || !event || segmentDrag.delta === 0) return null
+    const { startDate, endDate } = draggedRange(
+      event.startDate,
+      event.endDate,
+      segmentDrag.mode,
+      segmentDrag.delta,
+    )
+    return {
+      event,
+      startDate,
+      endDate,
+      start: formatDateKey(startDate),
+      end: formatDateKey(endDate),
+    }
+  }, [eventById, segmentDrag])
+
+  const updateEventRange = (event: VisionEvent, start: string, end: string) => {
+    if (onUpdateEvent) {
+      saveOptimistically(
+        { ...event, start, end },
+        (options) =>
+          onUpdateEvent(
+            event.id,
+            { ...toEventPayload(event), start, end },
+            options,
+          ),
+        "Could not move this vision",
+      )
+      return
+    }
+    setUseSampleEvents(false)
+    setEvents((prev) =>
+      prev.map((item) =>
+        item.id === event.id ? { ...item, start, end } : item,
+      ),
+    )
+  }
+
+  const commitSegmentDrag = () => {
+    setSegmentDrag(null)
+    if (!segmentGhost) return false
+    updateEventRange(segmentGhost.event, segmentGhost.start, segmentGhost.end)
+    return true
+  }
+
+  // Day cells sit underneath the segment overlay, so look through it.
+  const dateAtPoint = (x: number, y: number) => {
+    const cell = document
+      .elementsFromPoint(x, y)
+      .find((element) => element.hasAttribute("data-date"))
+    return cell ? dateFromElement(cell) : null
+  }
+
+  const handleSegmentPointerDown = (
+    event: PointerEvent<HTMLDivElement>,
+    eventId: VisionEvent["id"],
+  ) => {
+    if (event.button !== 0 || event.pointerType === "touch") return
+    if (eventById.get(eventId)?.pending) return
+    const date = dateAtPoint(event.clientX, event.clientY)
+    if (!date) return
+    const edge = (event.target as Element).closest<HTMLElement>(
+      "[data-resize-edge]",
+    )?.dataset.resizeEdge
+    event.preventDefault()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setSegmentDrag({
+      eventId,
+      mode: edge === "start" || edge === "end" ? edge : "move",
+      anchorDate: date,
+      delta: 0,
+    })
+  }
+
+  const handleSegmentPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (segmentDrag?.anchorDate == null) return
+    const date = dateAtPoint(event.clientX, event.clientY)
+    if (!date) return
+    const delta = daysBetween(toDate(segmentDrag.anchorDate), toDate(date))
+    if (delta !== segmentDrag.delta) {
+      setSegmentDrag({ ...segmentDrag, delta })
+    }
+  }
+
+  const handleSegmentPointerUp = () => {
+    if (segmentDrag?.anchorDate == null) return
+    // A drag that changed the range must not also open the edit sheet.
+    suppressSegmentClickRef.current = commitSegmentDrag()
+  }
+
+  const handleSegmentClick = (event: VisionEvent) => {
+    if (suppressSegmentClickRef.current) {
+      suppressSegmentClickRef.current = false
+      return
+    }
+    openEditSheet(event)
+  }
+
+  const handleSegmentKeyDown = (
+    keyEvent: ReactKeyboardEvent<HTMLDivElement>,
+    event: VisionEvent,
+  ) => {
+    const step =
+      { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -7, ArrowDown: 7 }[
+        keyEvent.key
+      ] ?? 0
+    // Segments sit outside the grid, so an arrow that doesn't move one would
+    // reach the window and switch years.
+    if (step) keyEvent.stopPropagation()
+    if (event.pending) return
+    if (keyEvent.key === "Enter" || keyEvent.key === " ") {
+      keyEvent.preventDefault()
+      if (!commitSegmentDrag()) {
+        openEditSheet(event)
+      }
+      return
+    }
+    if (keyEvent.key === "Escape" && segmentDrag) {
+      keyEvent.preventDefault()
+      setSegmentDrag(null)
+      return
+    }
+    const modifiers = [keyEvent.altKey && "alt", keyEvent.shiftKey && "shift"]
+      .filter(Boolean)
+      .join("+")
+    const mode = segmentKeyModes[modifiers]
+    if (!step || !mode) return
+    keyEvent.preventDefault()
+    setSegmentDrag((prev) => ({
+      eventId: event.id,
+      mode,
+      anchorDate: null,
+      delta:
+        prev?.eventId === event.id && prev.mode === mode
+          ? prev.delta + step
+          : step,
+    }))
+  }
+
+  return (
+    <>
+      <section className="relative w-full overflow-visible px-4 py-6 sm:px-8 sm:py-10">
+        <div className="pointer-events-none absolute inset-0 overflow-hidden">
+          <div className="absolute -top-32 -right-20 h-64 w-64 rounded-full bg-[radial-gradient(circle_at_center,rgba(107,181,197,0.45),rgba(255,255,255,0))]" />
+          <div className="absolute -bottom-32 -left-24 h-72 w-72 rounded-full bg-[radial-gradient(circle_at_center,rgba(242,183,141,0.45),rgba(255,255,255,0))]" />
+        </div>
+
+        <div className="relative z-10">
+          <div className="flex flex-col items-center text-center">
+            <p className="text-xs tracking-[0.35em] text-slate-500 uppercase">
+              Life Planner
+            </p>
+            <h1
+              className={`mt-3 font-semibold text-slate-950 ${
+                windowTitle.length > 9
+                  ? "text-4xl sm:text-5xl lg:text-6xl"
+                  : "text-5xl sm:text-7xl lg:text-8xl"
+              }`}
+              style={{ fontFamily: "'Fraunces', serif" }}
+            >
+              {windowTitle}
+            </h1>
             <p className="mt-3 max-w-2xl text-sm text-slate-600 sm:text-base">
               Your year ahead at a glance. Map out your vision board, directly
               on the calendar.
@@ -771,38 +1777,68 @@ export default function YearlyPlanner({
               <div className="mt-6 w-full max-w-xl">{heroCTA}</div>
             ) : null}
             <div className="mt-6 flex flex-col items-center gap-3">
-              <div
-                className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white/90 p-1 text-xs font-semibold text-slate-600 shadow-[0_12px_24px_-18px_rgba(15,23,42,0.5)]"
-                style={{ fontFamily: "'Space Grotesk', sans-serif" }}
-              >
-                <button
-                  type="button"
-                  onClick={() => setViewMode("calendar")}
-                  aria-pressed={viewMode === "calendar"}
-                  className={`rounded-full px-4 py-2 transition ${
-                    viewMode === "calendar"
-                      ? "bg-slate-900 text-white"
-                      : "text-slate-500 hover:text-slate-800"
-                  }`}
-                >
-                  Calendar
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setViewMode("vision")}
-                  aria-pressed={viewMode === "vision"}
-                  className={`rounded-full px-4 py-2 transition ${
-                    viewMode === "vision"
-                      ? "bg-slate-900 text-white"
-                      : "text-slate-500 hover:text-slate-800"
-                  }`}
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                <div
+                  className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white/90 p-1 text-xs font-semibold text-slate-600 shadow-[0_12px_24px_-18px_rgba(15,23,42,0.5)]"
+                  style={{ fontFamily: "'Space Grotesk', sans-serif" }}
                 >
-                  Vision board
-                </button>
+                  <button
+                    type="button"
+                    onClick={() => setViewMode("calendar")}
+                    aria-pressed={viewMode === "calendar"}
+                    className={`rounded-full px-4 py-2 transition ${
+                      viewMode === "calendar"
+                        ? "bg-slate-900 text-white"
+                        : "text-slate-500 hover:text-slate-800"
+                    }`}
+                  >
+                    Calendar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setViewMode("vision")}
+                    aria-pressed={viewMode === "vision"}
+                    className={`rounded-full px-4 py-2 transition ${
+                      viewMode === "vision"
+                        ? "bg-slate-900 text-white"
+                        : "text-slate-500 hover:text-slate-800"
+                    }`}
+                  >
+                    Vision board
+                  </button>
+                </div>
+                {viewMode === "calendar" ? (
+                  <div
+                    className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white/90 p-1 text-xs font-semibold text-slate-600 shadow-[0_12px_24px_-18px_rgba(15,23,42,0.5)]"
+                    style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+                    role="group"
+                    aria-label="Grid layout"
+                  >
+                    {(["weeks", "months"] as const).map((layout) => (
+                      <button
+                        key={layout}
+                        type="button"
+                        onClick={() => setGridLayout(layout)}
+                        aria-pressed={gridLayout === layout}
+                        className={`rounded-full px-4 py-2 capitalize transition ${
+                          gridLayout === layout
+                            ? "bg-slate-900 text-white"
+                            : "text-slate-500 hover:text-slate-800"
+                        }`}
+                      >
+                        {layout}
+                      </button>
+                    ))}
+                  </div>
+                ) : null}
               </div>
               {viewMode === "calendar" ? (
-                <div className="flex items-center gap-2 text-xs text-slate-500">
-                  <span className="text-[10px] font-semibold uppercase tracking-[0.35em] text-slate-400">
+                <div
+                  className={`flex items-center gap-2 text-xs text-slate-500 ${
+                    windowMode === "rolling" ? "invisible" : ""
+                  }`}
+                >
+                  <span className="text-[10px] font-semibold tracking-[0.35em] text-slate-400 uppercase">
                     Shortcuts
                   </span>
                   <div className="flex items-center gap-1">
@@ -832,310 +1868,567 @@ export default function YearlyPlanner({
               <div className="flex items-center justify-between gap-3">
                 <div>
                   <p
-                    className="text-sm font-semibold uppercase tracking-[0.25em] text-slate-500"
+                    className="text-sm font-semibold tracking-[0.25em] text-slate-500 uppercase"
                     style={{ fontFamily: "'Space Grotesk', sans-serif" }}
                   >
                     Year flow
                   </p>
                   <p className="text-xs text-slate-400">
-                    {daysInYear} days · {spannedEvents.length} events
+                    {windowDays} days · {spannedEvents.length} events · Drag
+                    across days to add a vision
                   </p>
                 </div>
-                <div />
+                <div className="flex flex-wrap items-center justify-end gap-2">
+                  <IcsImport
+                    events={plannerEvents}
+                    palette={palette}
+                    onImport={importEvents}
+                  />
+                  <PlannerExport
+                    title={windowTitle}
+                    calendarExportUrl={calendarExportUrl}
+                    buildPoster={buildPoster}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setIsSearchOpen(true)}
+                    aria-keyshortcuts="Control+K Meta+K"
+                    className="inline-flex h-8 items-center gap-2 rounded-full border border-slate-200 bg-white px-3 text-xs text-slate-500 transition hover:text-slate-800"
+                  >
+                    <SearchIcon className="size-3.5" />
+                    Jump to a vision
+                    <kbd className="rounded border border-slate-200 px-1.5 font-sans text-[10px] font-semibold text-slate-400">
+                      Ctrl K
+                    </kbd>
+                  </button>
+                  <Select
+                    value={windowMode}
+                    onValueChange={(value) =>
+                      setWindowMode(value as PlannerWindowMode)
+                    }
+                  >
+                    <SelectTrigger
+                      size="sm"
+                      aria-label="Planner window"
+                      className="rounded-full bg-white text-xs"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(windowModeLabels).map(([mode, label]) => (
+                        <SelectItem key={mode} value={mode}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {windowMode === "custom" ? (
+                    <Select
+                      value={`${windowStartMonth}`}
+                      onValueChange={(value) =>
+                        setWindowStartMonth(Number(value))
+                      }
+                    >
+                      <SelectTrigger
+                        size="sm"
+                        aria-label="Window start month"
+                        className="rounded-full bg-white text-xs"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {monthNames.map((month, index) => (
+                          <SelectItem key={month} value={`${index}`}>
+                            Starts in {month}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : null}
+                </div>
+              </div>
+
+              <div
+                className="mt-3 flex flex-wrap items-center gap-2 text-[11px] text-slate-500"
+                role="group"
+                aria-label="Filter by category"
+              >
+                {legendCategories.map((category) => {
+                  const count = categoryCounts.get(category.key) ?? 0
+                  const isActive = categoryFilter === category.key
+                  return (
+                    <button
+                      key={category.key}
+                      type="button"
+                      onClick={() =>
+                        setCategoryFilter(isActive ? null : category.key)
+                      }
+                      aria-pressed={isActive}
+                      disabled={count === 0 && !isActive}
+                      className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 font-semibold transition disabled:opacity-40 ${
+                        isActive
+                          ? "border-slate-900 bg-slate-900 text-white"
+                          : "border-slate-200 bg-white text-slate-600 hover:border-slate-300 hover:text-slate-800"
+                      }`}
+                    >
+                      {category.name}
+                      <span
+                        className={
+                          isActive ? "text-white/70" : "text-slate-400"
+                        }
+                      >
+                        {count}
+                      </span>
+                    </button>
+                  )
+                })}
+                {categoryFilter ? (
+                  <button
+                    type="button"
+                    onClick={() => setCategoryFilter(null)}
+                    className="px-2 py-1 font-semibold text-slate-500 underline-offset-4 hover:text-slate-800 hover:underline"
+                  >
+                    Show all
+                  </button>
+                ) : null}
               </div>
 
               <div className="mt-3" ref={yearGridRef}>
+                <p className="sr-only" aria-live="polite">
+                  {segmentGhost && segmentDrag?.anchorDate === null
+                    ? `${segmentGhost.event.label}: ${formatEventRange(segmentGhost)}. Press Enter to save or Escape to cancel.`
+                    : jumpTarget
+                      ? `Jumped to ${jumpTarget.label}, ${formatEventRange(jumpTarget)} ${toDate(jumpTarget.start).getFullYear()}.`
+                      : ""}
+                </p>
                 <p className="sr-only" id="year-flow-label">
-                  Year grid with day links. Use the jump menu to highlight dates.
+                  Year grid with day links. Use the arrow keys to move between
+                  days, Shift with the arrows to select a range, and Enter to
+                  start a vision on it. Tab moves to the visions on the focused
+                  day. Press Control or Command and K to open the jump menu and
+                  highlight the dates of a vision.
                 </p>
                 <div
-                  className="grid gap-2 text-[11px] uppercase tracking-[0.2em] text-slate-400"
+                  className={`grid gap-x-6 gap-y-10 ${
+                    gridLayout === "months" ? "overflow-x-auto pt-3 pb-2" : ""
+                  }`}
                   style={{
-                    gridTemplateColumns: `repeat(${gridColumns}, minmax(0, 1fr))`,
+                    gridTemplateColumns: `repeat(${
+                      gridLayout === "months" ? 1 : windowsPerRow
+                    }, minmax(0, 1fr))`,
                   }}
                 >
-                  {weekdayLabels.map((day, index) => (
-                    <div key={`${day}-${index}`} className="text-center">
-                      {day}
-                    </div>
-                  ))}
-                </div>
+                  {windowLayouts.map((layout, layoutIndex) => (
+                    <div
+                      key={layout.window.key}
+                      className={gridLayout === "months" ? "min-w-[60rem]" : ""}
+                    >
+                      {windowLayouts.length > 1 ? (
+                        <p
+                          className="mb-2 text-xs font-semibold tracking-[0.25em] text-slate-500 uppercase"
+                          style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+                        >
+                          {layout.window.title}
+                        </p>
+                      ) : null}
+                      <div
+                        className="grid gap-2 text-[11px] tracking-[0.2em] text-slate-400 uppercase"
+                        style={{
+                          gridTemplateColumns: `repeat(${layoutColumns}, minmax(0, 1fr))`,
+                        }}
+                      >
+                        {columnLabels.map((day, index) => (
+                          <div key={`${day}-${index}`} className="text-center">
+                            {day}
+                          </div>
+                        ))}
+                      </div>
 
-                <div className="relative mt-2">
-                  <div
-                    className="pointer-events-none absolute inset-0 z-10 grid gap-1.5"
-                    style={{
-                      gridTemplateColumns: `repeat(${gridColumns}, minmax(0, 1fr))`,
-                      gridTemplateRows: weekRowHeights.join(" "),
-                    }}
-                  >
-                    {yearWeekSegments.segments.map((segment, index) => {
-                      const segmentEvent = eventById.get(segment.id)
-                      const hasImages =
-                        segmentEvent && segmentEvent.images.length > 0
-                      const labelParts = segment.label.split(" ")
-                      const emojiToken = labelParts[0] ?? ""
-                      const hasEmoji = /\p{Extended_Pictographic}/u.test(
-                        emojiToken,
-                      )
-                      const labelText = hasEmoji
-                        ? labelParts.slice(1).join(" ")
-                        : segment.label
-                      const segmentPill = (
+                      <div className="relative mt-2">
                         <div
-                          className={`pointer-events-auto flex h-8 items-center self-start rounded-full border border-slate-900 px-4 text-[13px] font-semibold shadow-[0_16px_36px_-16px_rgba(15,23,42,0.9)] ${toneStyles[segment.tone]} ${
-                            segmentEvent ? "cursor-pointer" : ""
-                          }`}
+                          className="relative z-0 grid gap-1.5 transition-[grid-template-rows] duration-300 ease-out motion-reduce:transition-none"
                           style={{
-                            gridRow: segment.row,
-                            gridColumn: `${segment.colStart} / span ${segment.span}`,
-                            marginTop:
-                              segment.stackIndex *
-                                (yearEventRowHeight + yearEventRowGap) -
-                              2,
+                            gridTemplateColumns: `repeat(${layoutColumns}, minmax(0, 1fr))`,
+                            gridTemplateRows: windowRows[layoutIndex].template,
                           }}
-                          tabIndex={segmentEvent ? 0 : undefined}
-                          role={segmentEvent ? "button" : undefined}
-                          onClick={
-                            segmentEvent
-                              ? () => openEditSheet(segmentEvent)
-                              : undefined
-                          }
-                          onKeyDown={
-                            segmentEvent
-                              ? (eventKey) => {
-                                  if (
-                                    eventKey.key === "Enter" ||
-                                    eventKey.key === " "
-                                  ) {
-                                    eventKey.preventDefault()
-                                    openEditSheet(segmentEvent)
-                                  }
-                                }
-                              : undefined
-                          }
+                          ref={(element) => {
+                            dayGridRefs.current.set(layout.window.key, element)
+                            return () => {
+                              dayGridRefs.current.delete(layout.window.key)
+                            }
+                          }}
+                          role="grid"
+                          aria-labelledby="year-flow-label"
+                          aria-multiselectable="true"
+                          aria-rowcount={layout.weekRows}
+                          onPointerDown={handleGridPointerDown}
+                          onPointerMove={handleGridPointerMove}
+                          onPointerUp={handleGridPointerUp}
+                          onPointerCancel={() => {
+                            pointerDragRef.current = false
+                            setDaySelection(null)
+                          }}
+                          onKeyDown={handleGridKeyDown}
                         >
-                          {hasEmoji ? (
-                            <span className="inline-flex items-center gap-2">
-                              <span className="text-[16px] drop-shadow-[0_1px_1px_rgba(0,0,0,0.35)]">
-                                {emojiToken}
-                              </span>
-                              <span className="truncate">{labelText}</span>
-                            </span>
-                          ) : (
-                            <span className="truncate">{segment.label}</span>
-                          )}
+                          {windowRows[layoutIndex].heights.map((_, index) => {
+                            const row = index + 1
+                            if (!isRowDrawn(layout, row)) {
+                              return null
+                            }
+                            const rowKeys = layout.cells
+                              .slice(index * layoutColumns, row * layoutColumns)
+                              .flatMap((day) => (day ? [day.key] : []))
+                            const isRowSelected =
+                              selectionRange &&
+                              rowKeys.length > 0 &&
+                              selectionRange.start <=
+                                rowKeys[rowKeys.length - 1] &&
+                              selectionRange.end >= rowKeys[0]
+                            return (
+                              <DayRow
+                                key={row}
+                                cells={layout.cells}
+                                row={row}
+                                columns={layoutColumns}
+                                laneOffset={
+                                  windowRows[layoutIndex].offsets[index]
+                                }
+                                todayKey={todayKey}
+                                tabStopKey={
+                                  rowKeys.includes(tabStopDate)
+                                    ? tabStopDate
+                                    : undefined
+                                }
+                                selectionStart={
+                                  isRowSelected
+                                    ? selectionRange.start
+                                    : undefined
+                                }
+                                selectionEnd={
+                                  isRowSelected ? selectionRange.end : undefined
+                                }
+                              />
+                            )
+                          })}
                         </div>
-                      )
-
-                      if (!segmentEvent || !hasImages) {
-                        return (
-                          <div key={`${segment.id}-year-${index}`}>
-                            {segmentPill}
-                          </div>
-                        )
-                      }
-
-                      return (
-                        <Tooltip key={`${segment.id}-year-${index}`}>
-                          <TooltipTrigger asChild>{segmentPill}</TooltipTrigger>
-                          <TooltipContent
-                            side="top"
-                            sideOffset={12}
-                            align="center"
-                            collisionPadding={32}
-                            avoidCollisions
-                            sticky="always"
-                            className="border-0 bg-transparent p-0 shadow-none z-[120] overflow-visible data-[side=bottom]:[&_[data-polaroid-single]]:top-1 data-[side=bottom]:[&_[data-polaroid-single]]:bottom-auto"
-                            hideArrow
-                          >
-                            <VisionTooltipContent event={segmentEvent} />
-                          </TooltipContent>
-                        </Tooltip>
-                      )
-                    })}
-                  </div>
 
-                  <div
-                    className="relative z-0 grid gap-1.5"
-                    style={{
-                      gridTemplateColumns: `repeat(${gridColumns}, minmax(0, 1fr))`,
-                      gridTemplateRows: weekRowHeights.join(" "),
-                    }}
-                    role="grid"
-                    aria-labelledby="year-flow-label"
-                    aria-owns={
-                      yearDayIds.length > 0 ? yearDayIds.join(" ") : undefined
-                    }
-                  >
-                    {yearGrid.map((day, index) => {
-                      if (!day) {
-                        return (
-                          <div
-                            key={`year-pad-${index}`}
-                            className="h-full rounded-2xl bg-transparent"
-                          />
-                        )
-                      }
-                      const dayKey = formatDateKey(day.date)
-                      const isToday = dayKey === todayKey
-                      const dayPaddingTop = isToday
-                        ? Math.max(0, yearEventOffset - 2)
-                        : yearEventOffset
-                      return (
                         <div
-                          id={`year-day-${dayKey}`}
-                          key={`${day.date.toISOString()}-mobile-year`}
-                          role="gridcell"
-                          aria-label={`${monthNames[day.monthIndex]} ${
-                            day.dayNumber
-                          }, ${activeYear}`}
-                          className={[
-                            "relative h-full overflow-hidden rounded-2xl border border-slate-200 bg-white px-2 text-left text-xs transition-transform",
-                            day.isWeekend
-                              ? "bg-slate-50 text-slate-700 ring-1 ring-inset ring-slate-200/80"
-                              : "",
-                            isToday
-                              ? "border border-slate-900 bg-amber-50 shadow-[0_20px_44px_-22px_rgba(15,23,42,0.6)] -translate-y-0.5"
-                              : "",
-                          ].join(" ")}
-                          style={{ paddingTop: dayPaddingTop }}
+                          className="pointer-events-none absolute inset-0 z-10 grid gap-1.5 transition-[grid-template-rows] duration-300 ease-out motion-reduce:transition-none"
+                          style={{
+                            gridTemplateColumns: `repeat(${layoutColumns}, minmax(0, 1fr))`,
+                            gridTemplateRows: windowRows[layoutIndex].template,
+                          }}
                         >
-                          {isToday && (
-                            <span className="pointer-events-none absolute left-2 top-2 inline-flex items-center rounded-full bg-slate-900 px-2 py-0.5 text-[9px] font-semibold uppercase tracking-[0.3em] text-amber-200 shadow-[0_8px_20px_-12px_rgba(15,23,42,0.7)]">
-                              Today
-                            </span>
-                          )}
-                          {day.isMonthStart && (
-                            <span className="pointer-events-none absolute bottom-2 right-2 rounded-full bg-slate-900 px-1.5 py-0.5 text-[9px] font-semibold uppercase tracking-[0.2em] text-white">
-                              {monthNames[day.monthIndex].slice(0, 3)}
-                            </span>
-                          )}
-                          <span
-                            className={`mt-4 block text-[12px] font-semibold text-slate-900 ${
-                              isToday ? "text-[20px] text-slate-950" : ""
-                            }`}
-                            style={{
-                              fontFamily: "'JetBrains Mono', monospace",
-                            }}
-                          >
-                            {day.dayNumber}
-                          </span>
-                          {isToday && (
-                            <span className="mt-1 block text-[10px] uppercase tracking-[0.28em] text-slate-500">
-                              {weekdayShort[day.date.getDay()]}
-                            </span>
+                          {layout.segments.map((segment, index) => {
+                            if (
+                              !isRowDrawn(layout, segment.row) ||
+                              segment.stackIndex >=
+                                windowRows[layoutIndex].overflow[
+                                  segment.row - 1
+                                ].segmentLanes
+                            ) {
+                              return null
+                            }
+                            const segmentEvent = eventById.get(segment.id)
+                            const hasPreview =
+                              segmentEvent && hasVisionPreview(segmentEvent)
+                            const labelParts = segment.label.split(" ")
+                            const emojiToken = labelParts[0] ?? ""
+                            const hasEmoji = /\p{Extended_Pictographic}/u.test(
+                              emojiToken,
+                            )
+                            const labelText = hasEmoji
+                              ? labelParts.slice(1).join(" ")
+                              : segment.label
+                            const isDragging =
+                              segmentGhost?.event.id === segment.id
+                            const isHidden =
+                              segmentEvent && isFilteredOut(segmentEvent)
+                            const segmentTone = toneFor(segment.tone)
+                            const segmentPill = (
+                              <div
+                                className={`pointer-events-auto relative flex h-8 items-center self-start border border-slate-900 px-4 text-[13px] font-semibold shadow-[0_16px_36px_-16px_rgba(15,23,42,0.9)] transition-opacity select-none ${
+                                  // Squared edges and chevrons mark a vision
+                                  // that carries on from or onto another row.
+                                  segment.isStart
+                                    ? "rounded-l-full"
+                                    : "rounded-l-md"
+                                } ${
+                                  segment.isEnd
+                                    ? "rounded-r-full"
+                                    : "rounded-r-md"
+                                } ${
+                                  segmentEvent
+                                    ? "cursor-grab active:cursor-grabbing"
+                                    : ""
+                                } ${isDragging ? "opacity-40" : ""} ${
+                                  segmentEvent?.pending
+                                    ? "animate-pulse border-dashed opacity-70"
+                                    : ""
+                                } ${isHidden ? "invisible" : ""} ${
+                                  jumpTarget?.id === segment.id
+                                    ? "animate-pulse ring-4 ring-amber-300 ring-offset-2"
+                                    : ""
+                                }`}
+                                style={{
+                                  backgroundColor: segmentTone.color,
+                                  color: segmentTone.text,
+                                  gridRow: segment.row,
+                                  gridColumn: `${segment.colStart} / span ${segment.span}`,
+                                  marginTop:
+                                    segment.stackIndex *
+                                      (yearEventRowHeight + yearEventRowGap) -
+                                    2,
+                                }}
+                                tabIndex={
+                                  segmentEvent
+                                    ? isOnTabStop(layout, segment)
+                                      ? 0
+                                      : -1
+                                    : undefined
+                                }
+                                role={segmentEvent ? "button" : undefined}
+                                aria-busy={
+                                  segmentEvent?.pending ? true : undefined
+                                }
+                                aria-keyshortcuts={
+                                  segmentEvent
+                                    ? "Alt+ArrowLeft Alt+ArrowRight Shift+ArrowLeft Shift+ArrowRight Alt+Shift+ArrowLeft Alt+Shift+ArrowRight"
+                                    : undefined
+                                }
+                                onClick={
+                                  segmentEvent
+                                    ? () => handleSegmentClick(segmentEvent)
+                                    : undefined
+                                }
+                                onKeyDown={
+                                  segmentEvent
+                                    ? (eventKey) =>
+                                        handleSegmentKeyDown(
+                                          eventKey,
+                                          segmentEvent,
+                                        )
+                                    : undefined
+                                }
+                                onBlur={() => {
+                                  if (
+                                    isDragging &&
+                                    segmentDrag?.anchorDate === null
+                                  ) {
+                                    setSegmentDrag(null)
+                                  }
+                                }}
+                                onPointerDown={
+                                  segmentEvent
+                                    ? (pointerEvent) =>
+                                        handleSegmentPointerDown(
+                                          pointerEvent,
+                                          segmentEvent.id,
+                                        )
+                                    : undefined
+                                }
+                                onPointerMove={handleSegmentPointerMove}
+                                onPointerUp={handleSegmentPointerUp}
+                                onPointerCancel={() => setSegmentDrag(null)}
+                              >
+                                {segmentEvent && segment.isStart ? (
+                                  <span
+                                    data-resize-edge="start"
+                                    aria-hidden="true"
+                                    className="absolute inset-y-0 left-0 w-2.5 cursor-ew-resize rounded-l-full"
+                                  />
+                                ) : null}
+                                {segmentEvent && segment.isEnd ? (
+                                  <span
+                                    data-resize-edge="end"
+                                    aria-hidden="true"
+                                    className="absolute inset-y-0 right-0 w-2.5 cursor-ew-resize rounded-r-full"
+                                  />
+                                ) : null}
+                                {!segment.isStart ? (
+                                  <ChevronLeftIcon
+                                    aria-hidden="true"
+                                    className="-ml-2.5 size-3.5 shrink-0 opacity-70"
+                                  />
+                                ) : null}
+                                {hasEmoji ? (
+                                  <span className="inline-flex items-center gap-2">
+                                    <span className="text-[16px] drop-shadow-[0_1px_1px_rgba(0,0,0,0.35)]">
+                                      {emojiToken}
+                                    </span>
+                                    <span className="truncate">
+                                      {labelText}
+                                    </span>
+                                  </span>
+                                ) : (
+                                  <span className="truncate">
+                                    {segment.label}
+                                  </span>
+                                )}
+                                {!segment.isEnd ? (
+                                  <ChevronRightIcon
+                                    aria-hidden="true"
+                                    className="-mr-2.5 ml-auto size-3.5 shrink-0 opacity-70"
+                                  />
+                                ) : null}
+                              </div>
+                            )
+
+                            if (!segmentEvent || !hasPreview) {
+                              return (
+                                <Fragment key={`${segment.id}-year-${index}`}>
+                                  {segmentPill}
+                                </Fragment>
+                              )
+                            }
+
+                            return (
+                              <VisionTooltip
+                                key={`${segment.id}-year-${index}`}
+                                event={segmentEvent}
+                                tone={toneFor(segmentEvent.tone)}
+                              >
+                                {segmentPill}
+                              </VisionTooltip>
+                            )
+                          })}
+                          {windowRows[layoutIndex].overflow.map((row, index) =>
+                            row.hiddenCount > 0 &&
+                            isRowDrawn(layout, index + 1) ? (
+                              <button
+                                key={`lane-chip-${index + 1}`}
+                                type="button"
+                                className="pointer-events-auto flex h-8 items-center self-start justify-self-end rounded-full border border-slate-300 bg-white px-3 text-[12px] font-semibold text-slate-700 shadow-sm hover:bg-slate-50"
+                                style={{
+                                  gridRow: index + 1,
+                                  gridColumn: `1 / span ${layoutColumns}`,
+                                  marginTop:
+                                    row.segmentLanes *
+                                      (yearEventRowHeight + yearEventRowGap) -
+                                    2,
+                                }}
+                                tabIndex={
+                                  isOnTabStop(layout, {
+                                    row: index + 1,
+                                    colStart: 1,
+                                    span: layoutColumns,
+                                    colEnd: layoutColumns,
+                                  })
+                                    ? 0
+                                    : -1
+                                }
+                                aria-expanded={row.isExpanded}
+                                onClick={() =>
+                                  toggleLaneRow(layout.window, index + 1)
+                                }
+                              >
+                                {row.isExpanded
+                                  ? "Show less"
+                                  : `+${row.hiddenCount} more`}
+                              </button>
+                            ) : null,
                           )}
+                          {segmentGhost
+                            ? windowRowSpans(
+                                layout.window,
+                                segmentGhost.startDate,
+                                segmentGhost.endDate,
+                                layoutColumns,
+                                gridLayout,
+                              ).map((span, index) => (
+                                <div
+                                  key={`ghost-${span.row}`}
+                                  className="relative flex h-8 items-center self-start rounded-full border-2 border-dashed border-slate-900 px-4 text-[13px] font-semibold opacity-80"
+                                  style={{
+                                    backgroundColor: toneFor(
+                                      segmentGhost.event.tone,
+                                    ).color,
+                                    color: toneFor(segmentGhost.event.tone)
+                                      .text,
+                                    gridRow: span.row,
+                                    gridColumn: `${span.colStart} / span ${span.span}`,
+                                  }}
+                                >
+                                  <span className="truncate">
+                                    {segmentGhost.event.label}
+                                  </span>
+                                  {index === 0 ? (
+                                    <span className="absolute -top-3 left-2 rounded-full bg-slate-900 px-2 py-0.5 text-[11px] font-semibold whitespace-nowrap text-white shadow-sm">
+                                      {formatEventRange(segmentGhost)}
+                                    </span>
+                                  ) : null}
+                                </div>
+                              ))
+                            : null}
+                          {selectionRange
+                            ? windowRowSpans(
+                                layout.window,
+                                selectionRange.startDate,
+                                selectionRange.endDate,
+                                layoutColumns,
+                                gridLayout,
+                              ).map((span, index) => (
+                                <div
+                                  key={`selection-${span.row}`}
+                                  className="relative rounded-2xl bg-slate-900/10 ring-2 ring-slate-900/60 ring-inset"
+                                  style={{
+                                    gridRow: span.row,
+                                    gridColumn: `${span.colStart} / span ${span.span}`,
+                                  }}
+                                >
+                                  {index === 0 ? (
+                                    <span className="absolute -top-3 left-2 rounded-full bg-slate-900 px-2 py-0.5 text-[11px] font-semibold whitespace-nowrap text-white shadow-sm">
+                                      {formatEventRange(selectionRange)} ·{" "}
+                                      {selectionRange.days}{" "}
+                                      {selectionRange.days === 1
+                                        ? "day"
+                                        : "days"}
+                                    </span>
+                                  ) : null}
+                                </div>
+                              ))
+                            : null}
                         </div>
-                      )
-                    })}
-                  </div>
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </div>
 
               <div className="mt-3 flex flex-wrap gap-2 text-[11px] text-slate-600">
-                {spannedEvents.map((event) => (
-                  <EventPill
-                    key={`${event.id}-mobile-pill`}
-                    event={event}
-                    pillClassName="inline-flex items-center gap-2 rounded-full border border-slate-200/80 bg-white px-3 py-1"
-                    labelClassName="font-semibold text-slate-800"
-                    rangeClassName="text-slate-500"
-                    onSelect={openEditSheet}
-                  />
-                ))}
+                {spannedEvents
+                  .filter((event) => !isFilteredOut(event))
+                  .map((event) => (
+                    <EventPill
+                      key={`${event.id}-mobile-pill`}
+                      event={event}
+                      tone={toneFor(event.tone)}
+                      pillClassName="inline-flex items-center gap-2 rounded-full border border-slate-200/80 bg-white px-3 py-1"
+                      labelClassName="font-semibold text-slate-800"
+                      rangeClassName="text-slate-500"
+                      onSelect={openEditSheet}
+                    />
+                  ))}
               </div>
             </div>
           ) : (
-            <div className="rounded-3xl border border-slate-200/70 bg-white/85 p-6 shadow-[0_30px_70px_-50px_rgba(15,23,42,0.6)] sm:p-8">
-              <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
-                <div>
-                  <p
-                    className="text-sm font-semibold uppercase tracking-[0.25em] text-slate-500"
-                    style={{ fontFamily: "'Space Grotesk', sans-serif" }}
-                  >
-                    Vision board
-                  </p>
-                  <p className="text-xs text-slate-400">
-                    Pin the imagery, then anchor it to the calendar.
-                  </p>
-                </div>
-                <div className="flex flex-wrap items-center gap-2 text-[11px] text-slate-500">
-                  <span className="rounded-full border border-slate-200 bg-white px-3 py-1">
-                    {sortedVisionEvents.length} visions
-                  </span>
-                  <span className="rounded-full border border-slate-200 bg-white px-3 py-1">
-                    {activeYear}
-                  </span>
-                </div>
-              </div>
-
-              <div className="mt-6 columns-1 gap-5 sm:columns-2 lg:columns-3">
-                {sortedVisionEvents.map((event) => {
-                  const previewImages = event.images.slice(0, 4)
-                  const imageGridCols =
-                    previewImages.length <= 1 ? "grid-cols-1" : "grid-cols-2"
-                  return (
-                    <div
-                      key={`${event.id}-vision-card`}
-                      className="relative mb-5 break-inside-avoid overflow-hidden rounded-3xl border border-slate-200/80 bg-white p-5 shadow-[0_24px_60px_-40px_rgba(15,23,42,0.6)]"
-                    >
-                      <div
-                        className="absolute inset-0 opacity-70"
-                        style={{
-                          background: `linear-gradient(140deg, ${tonePolaroidBackground[event.tone]}22, transparent 55%)`,
-                        }}
-                      />
-                      <div className="relative space-y-4">
-                        <div className="flex items-start justify-between gap-3">
-                          <p className="text-sm font-semibold text-slate-900">
-                            {event.label}
-                          </p>
-                          <span
-                            className={`h-2.5 w-2.5 rounded-full ${toneStyles[event.tone]}`}
-                            aria-hidden="true"
-                          />
-                        </div>
-
-                        {previewImages.length > 0 ? (
-                          <div className={`grid gap-2 ${imageGridCols}`}>
-                            {previewImages.map((image, index) => (
-                              <div
-                                key={`${event.id}-vision-image-${image}`}
-                                className={`overflow-hidden rounded-2xl border border-white/60 shadow-[0_16px_30px_-22px_rgba(15,23,42,0.6)] ${
-                                  previewImages.length === 1
-                                    ? "aspect-[4/3]"
-                                    : index === 0
-                                      ? "aspect-[4/3]"
-                                      : "aspect-square"
-                                }`}
-                              >
-                                <img
-                                  src={image}
-                                  alt={`${event.label} vision`}
-                                  className="h-full w-full object-cover"
-                                />
-                              </div>
-                            ))}
-                          </div>
-                        ) : (
-                          <div className="rounded-2xl border border-dashed border-slate-200 bg-slate-50 px-4 py-6 text-xs text-slate-500">
-                            Add imagery to bring this vision to life.
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  )
-                })}
-              </div>
-            </div>
+            <VisionBoard
+              events={eventDates}
+              grouping={boardGrouping}
+              onGroupingChange={setBoardGrouping}
+              windowStart={plannerWindows[0].start}
+              windowEnd={plannerWindows[plannerWindows.length - 1].end}
+              windowTitle={windowTitle}
+              toneFor={toneFor}
+              onSelect={openEditSheet}
+            />
           )}
         </div>
       </section>
       <button
         type="button"
-        onClick={openCreateSheet}
-        className="group fixed bottom-6 right-6 z-50 inline-flex h-14 w-14 items-center justify-center rounded-full bg-slate-900 text-white shadow-[0_22px_48px_-24px_rgba(15,23,42,0.8)] transition hover:-translate-y-0.5 hover:bg-slate-800 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-400/60"
+        onClick={() => openCreateSheet()}
+        className="group fixed right-6 bottom-6 z-50 inline-flex h-14 w-14 items-center justify-center rounded-full bg-slate-900 text-white shadow-[0_22px_48px_-24px_rgba(15,23,42,0.8)] transition hover:-translate-y-0.5 hover:bg-slate-800 focus-visible:ring-2 focus-visible:ring-slate-400/60 focus-visible:outline-none"
         aria-label="Add new vision"
       >
         <span className="text-2xl leading-none">+</span>
@@ -1155,13 +2448,15 @@ export default function YearlyPlanner({
                       {editingEventId ? "Edit vision" : "Add vision"}
                     </SheetTitle>
                     <SheetDescription className="text-sm text-slate-600">
-                      Capture the moment and attach imagery for quick hover previews.
+                      {editingEvent?.archived
+                        ? "Archived visions stay on the vision board but are hidden from the calendar."
+                        : "Capture the moment and attach imagery for quick hover previews."}
                     </SheetDescription>
                   </div>
                   <SheetClose asChild>
                     <button
                       type="button"
-                      className="rounded-md p-2 text-slate-400 transition hover:bg-white/70 hover:text-slate-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-300/70"
+                      className="rounded-md p-2 text-slate-400 transition hover:bg-white/70 hover:text-slate-900 focus-visible:ring-2 focus-visible:ring-slate-300/70 focus-visible:outline-none"
                       aria-label="Close sidebar"
                     >
                       <XIcon className="size-4" />
@@ -1176,177 +2471,292 @@ export default function YearlyPlanner({
             >
               <div className="min-h-0 flex-1 space-y-4 overflow-y-auto px-6 py-5">
                 <div className="space-y-2">
-                <Label className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
-                  Title
-                </Label>
-                <Input
-                  value={eventTitle}
-                  onChange={(event) => setEventTitle(event.target.value)}
-                  placeholder="Vision title"
-                  className="h-9 bg-white text-sm text-slate-900 shadow-[0_0_0_1px_rgba(148,163,184,0.18)] focus-visible:ring-slate-300/70"
-                />
+                  <Label className="text-xs font-semibold tracking-[0.2em] text-slate-500 uppercase">
+                    Title
+                  </Label>
+                  <Input
+                    value={eventTitle}
+                    onChange={(event) => setEventTitle(event.target.value)}
+                    placeholder="Vision title"
+                    aria-invalid={formErrors.label ? true : undefined}
+                    className="h-9 bg-white text-sm text-slate-900 shadow-[0_0_0_1px_rgba(148,163,184,0.18)] focus-visible:ring-slate-300/70"
+                  />
+                  <InputError className="text-xs" messages={formErrors.label} />
                 </div>
                 <div className="space-y-2">
-                <Label className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
-                  Vision details
-                </Label>
-                <textarea
-                  value={eventDescription}
-                  onChange={(event) => setEventDescription(event.target.value)}
-                  placeholder="Describe the vision..."
-                  rows={2}
-                  className="w-full rounded-md border border-slate-200/70 bg-white px-3 py-2 text-sm text-slate-900 shadow-[0_0_0_1px_rgba(148,163,184,0.18)] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-300/70"
-                />
+                  <Label className="text-xs font-semibold tracking-[0.2em] text-slate-500 uppercase">
+                    Vision details
+                  </Label>
+                  <textarea
+                    value={eventDescription}
+                    onChange={(event) =>
+                      setEventDescription(event.target.value)
+                    }
+                    placeholder="Describe the vision..."
+                    rows={2}
+                    className="w-full rounded-md border border-slate-200/70 bg-white px-3 py-2 text-sm text-slate-900 shadow-[0_0_0_1px_rgba(148,163,184,0.18)] focus-visible:ring-2 focus-visible:ring-slate-300/70 focus-visible:outline-none"
+                  />
                 </div>
                 <div className="space-y-2">
-                <Label className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
-                  Emoji
-                </Label>
-                <Input
-                  value={eventEmoji}
-                  onChange={(event) => setEventEmoji(event.target.value)}
-                  placeholder="✨"
-                  maxLength={4}
-                  className="h-9 bg-white text-sm text-slate-900 shadow-[0_0_0_1px_rgba(148,163,184,0.18)] focus-visible:ring-slate-300/70"
-                />
+                  <Label className="text-xs font-semibold tracking-[0.2em] text-slate-500 uppercase">
+                    Emoji
+                  </Label>
+                  <Input
+                    value={eventEmoji}
+                    onChange={(event) => setEventEmoji(event.target.value)}
+                    placeholder="✨"
+                    maxLength={4}
+                    className="h-9 bg-white text-sm text-slate-900 shadow-[0_0_0_1px_rgba(148,163,184,0.18)] focus-visible:ring-slate-300/70"
+                  />
                 </div>
                 <div className="space-y-2">
-                <Label className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
-                  Tile color
-                </Label>
-                <div className="grid grid-cols-2 gap-2">
-                  {toneOrder.map((tone) => (
-                    <button
-                      key={tone}
-                      type="button"
-                      onClick={() => setEventTone(tone)}
-                      className={[
-                        "flex items-center gap-2 rounded-lg border px-2.5 py-1.5 text-left text-[11px] font-semibold uppercase tracking-[0.12em] transition",
-                        eventTone === tone
-                          ? "border-slate-900/50 bg-slate-900/5 text-slate-900 shadow-[0_8px_16px_-12px_rgba(15,23,42,0.6)]"
-                          : "border-slate-200/70 bg-white text-slate-500 hover:border-slate-300 hover:text-slate-800",
-                      ].join(" ")}
-                    >
-                      <span
-                        className="h-4 w-4 rounded-full shadow-[0_6px_12px_-8px_rgba(15,23,42,0.7)]"
-                        style={{
-                          backgroundColor: tonePolaroidBackground[tone],
-                        }}
-                      />
-                      <span>{toneLabels[tone]}</span>
-                    </button>
-                  ))}
+                  <Label className="text-xs font-semibold tracking-[0.2em] text-slate-500 uppercase">
+                    Tile color
+                  </Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {palette.map((tone) => (
+                      <button
+                        key={tone.key}
+                        type="button"
+                        onClick={() => setEventTone(tone.key)}
+                        className={[
+                          "flex items-center gap-2 rounded-lg border px-2.5 py-1.5 text-left text-[11px] font-semibold tracking-[0.12em] uppercase transition",
+                          eventTone === tone.key
+                            ? "border-slate-900/50 bg-slate-900/5 text-slate-900 shadow-[0_8px_16px_-12px_rgba(15,23,42,0.6)]"
+                            : "border-slate-200/70 bg-white text-slate-500 hover:border-slate-300 hover:text-slate-800",
+                        ].join(" ")}
+                      >
+                        <span
+                          className="h-4 w-4 rounded-full shadow-[0_6px_12px_-8px_rgba(15,23,42,0.7)]"
+                          style={{
+                            backgroundColor: tone.color,
+                          }}
+                        />
+                        <span className="truncate">{tone.name}</span>
+                      </button>
+                    ))}
+                  </div>
+                  <InputError className="text-xs" messages={formErrors.tone} />
                 </div>
+                <div className="space-y-2">
+                  <Label className="text-xs font-semibold tracking-[0.2em] text-slate-500 uppercase">
+                    Category
+                  </Label>
+                  <div className="flex flex-wrap gap-2">
+                    {categories.map((category) => (
+                      <button
+                        key={category.key}
+                        type="button"
+                        onClick={() =>
+                          setEventCategory((prev) =>
+                            prev === category.key ? null : category.key,
+                          )
+                        }
+                        aria-pressed={eventCategory === category.key}
+                        className={[
+                          "rounded-full border px-3 py-1 text-[11px] font-semibold tracking-[0.12em] uppercase transition",
+                          eventCategory === category.key
+                            ? "border-slate-900/50 bg-slate-900/5 text-slate-900 shadow-[0_8px_16px_-12px_rgba(15,23,42,0.6)]"
+                            : "border-slate-200/70 bg-white text-slate-500 hover:border-slate-300 hover:text-slate-800",
+                        ].join(" ")}
+                      >
+                        {category.name}
+                      </button>
+                    ))}
+                  </div>
+                  <InputError
+                    className="text-xs"
+                    messages={formErrors.category}
+                  />
                 </div>
                 <div className="grid gap-4 sm:grid-cols-2">
                   <div className="space-y-2">
-                  <Label className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
-                    Start date
-                  </Label>
-                  <Input
-                    type="date"
-                    value={eventStart}
-                    onChange={(event) => setEventStart(event.target.value)}
-                    className="h-9 bg-white text-sm text-slate-900 shadow-[0_0_0_1px_rgba(148,163,184,0.18)] focus-visible:ring-slate-300/70"
-                  />
+                    <Label className="text-xs font-semibold tracking-[0.2em] text-slate-500 uppercase">
+                      Start date
+                    </Label>
+                    <Input
+                      type="date"
+                      value={eventStart}
+                      onChange={(event) => setEventStart(event.target.value)}
+                      aria-invalid={formErrors.start_on ? true : undefined}
+                      className="h-9 bg-white text-sm text-slate-900 shadow-[0_0_0_1px_rgba(148,163,184,0.18)] focus-visible:ring-slate-300/70"
+                    />
+                    <InputError
+                      className="text-xs"
+                      messages={formErrors.start_on}
+                    />
                   </div>
                   <div className="space-y-2">
-                  <Label className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
-                    End date
-                  </Label>
-                  <Input
-                    type="date"
-                    value={eventEnd}
-                    onChange={(event) => setEventEnd(event.target.value)}
-                    className="h-9 bg-white text-sm text-slate-900 shadow-[0_0_0_1px_rgba(148,163,184,0.18)] focus-visible:ring-slate-300/70"
-                  />
+                    <Label className="text-xs font-semibold tracking-[0.2em] text-slate-500 uppercase">
+                      End date
+                    </Label>
+                    <Input
+                      type="date"
+                      value={eventEnd}
+                      onChange={(event) => setEventEnd(event.target.value)}
+                      aria-invalid={formErrors.end_on ? true : undefined}
+                      className="h-9 bg-white text-sm text-slate-900 shadow-[0_0_0_1px_rgba(148,163,184,0.18)] focus-visible:ring-slate-300/70"
+                    />
+                    <InputError
+                      className="text-xs"
+                      messages={formErrors.end_on}
+                    />
                   </div>
                 </div>
                 <Separator className="bg-slate-200/70" />
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
-                  <Label className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
-                    Images
-                  </Label>
-                  <span className="text-xs text-slate-400">
-                    Optional, up to 6
-                  </span>
+                    <Label className="text-xs font-semibold tracking-[0.2em] text-slate-500 uppercase">
+                      Images
+                    </Label>
+                    <span className="text-xs text-slate-400">
+                      Optional, {eventImages.length}/{maxEventImages}
+                    </span>
                   </div>
                   <div className="rounded-2xl border border-dashed border-slate-200/80 bg-slate-50/80 p-4 shadow-[inset_0_0_0_1px_rgba(255,255,255,0.8)] transition hover:border-slate-300">
-                  <input
-                    id="vision-images"
-                    type="file"
-                    accept="image/*"
-                    multiple
-                    onChange={handleImageChange}
-                    className="sr-only"
-                  />
-                  <label
-                    htmlFor="vision-images"
-                    className="group flex cursor-pointer items-center gap-3 rounded-xl bg-white/70 px-3 py-2 text-sm text-slate-600 shadow-[0_12px_30px_-20px_rgba(15,23,42,0.35)] transition hover:-translate-y-0.5 hover:bg-white"
-                  >
-                    <span className="flex size-10 items-center justify-center rounded-full border border-slate-200 bg-white text-slate-800 shadow-[0_8px_16px_-10px_rgba(15,23,42,0.4)]">
-                      <svg
-                        aria-hidden="true"
-                        viewBox="0 0 24 24"
-                        className="size-5"
-                        fill="none"
-                        stroke="currentColor"
-                        strokeWidth="1.6"
-                      >
-                        <path d="M4 16l4-4 4 4 4-4 4 4" />
-                        <path d="M20 16V6a2 2 0 0 0-2-2H6a2 2 0 0 0-2 2v10" />
-                        <circle cx="9" cy="8" r="2" />
-                      </svg>
-                    </span>
-                    <span className="flex-1 space-y-1">
-                      <span className="block font-medium text-slate-900">
-                        Drop files or browse
+                    <input
+                      id="vision-images"
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      onChange={handleImageChange}
+                      disabled={eventImages.length >= maxEventImages}
+                      className="sr-only"
+                    />
+                    <label
+                      htmlFor="vision-images"
+                      className="group flex cursor-pointer items-center gap-3 rounded-xl bg-white/70 px-3 py-2 text-sm text-slate-600 shadow-[0_12px_30px_-20px_rgba(15,23,42,0.35)] transition hover:-translate-y-0.5 hover:bg-white"
+                    >
+                      <span className="flex size-10 items-center justify-center rounded-full border border-slate-200 bg-white text-slate-800 shadow-[0_8px_16px_-10px_rgba(15,23,42,0.4)]">
+                        <svg
+                          aria-hidden="true"
+                          viewBox="0 0 24 24"
+                          className="size-5"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeWidth="1.6"
+                        >
+                          <path d="M4 16l4-4 4 4 4-4 4 4" />
+                          <path d="M20 16V6a2 2 0 0 0-2-2H6a2 2 0 0 0-2 2v10" />
+                          <circle cx="9" cy="8" r="2" />
+                        </svg>
                       </span>
-                      <span className="block text-[11px] text-slate-500">
-                        JPG, PNG, or GIF. Max 6 images.
+                      <span className="flex-1 space-y-1">
+                        <span className="block font-medium text-slate-900">
+                          Drop files or browse
+                        </span>
+                        <span className="block text-[11px] text-slate-500">
+                          JPG, PNG, or GIF. Max {maxEventImages} images.
+                        </span>
                       </span>
-                    </span>
-                    <span className="rounded-full bg-slate-900 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.2em] text-white shadow-[0_8px_16px_-12px_rgba(15,23,42,0.6)] transition group-hover:translate-y-[-1px]">
-                      Choose
-                    </span>
-                  </label>
+                      <span className="rounded-full bg-slate-900 px-3 py-1 text-[10px] font-semibold tracking-[0.2em] text-white uppercase shadow-[0_8px_16px_-12px_rgba(15,23,42,0.6)] transition group-hover:translate-y-[-1px]">
+                        Choose
+                      </span>
+                    </label>
                   </div>
                   {eventImages.length > 0 && (
                     <div className="space-y-3">
                       <div className="text-xs font-medium text-slate-500">
                         {eventImages.length} image
                         {eventImages.length === 1 ? "" : "s"} selected
+                        {isUploadingImages ? " · uploading…" : ""}
                       </div>
                       <div className="flex flex-wrap gap-2">
                         {eventImages.map((image) => (
                           <div
-                            key={image}
-                            className="h-14 w-14 overflow-hidden rounded-lg border border-slate-200 bg-slate-50 shadow-[0_10px_20px_-16px_rgba(15,23,42,0.6)]"
+                            key={image.key}
+                            className="group relative h-14 w-14 overflow-hidden rounded-lg border border-slate-200 bg-slate-50 shadow-[0_10px_20px_-16px_rgba(15,23,42,0.6)]"
                           >
                             <img
-                              src={image}
+                              src={image.url}
                               alt="Vision upload preview"
-                              className="h-full w-full object-cover"
+                              className={`h-full w-full object-cover ${
+                                image.id ? "" : "opacity-60"
+                              }`}
                             />
+                            {image.error ? (
+                              <span className="absolute inset-0 flex items-center justify-center bg-red-600/70 text-[9px] font-semibold tracking-[0.12em] text-white uppercase">
+                                Failed
+                              </span>
+                            ) : !image.id ? (
+                              <span
+                                className="absolute inset-x-1 bottom-1 h-1 overflow-hidden rounded-full bg-white/70"
+                                role="progressbar"
+                                aria-label="Upload progress"
+                                aria-valuemin={0}
+                                aria-valuemax={100}
+                                aria-valuenow={Math.round(image.progress * 100)}
+                              >
+                                <span
+                                  className="block h-full rounded-full bg-slate-900 transition-[width]"
+                                  style={{ width: `${image.progress * 100}%` }}
+                                />
+                              </span>
+                            ) : null}
+                            <button
+                              type="button"
+                              onClick={() => removeSheetImage(image.key)}
+                              className="absolute top-0.5 right-0.5 rounded-full bg-white/90 p-0.5 text-slate-600 opacity-0 shadow transition group-hover:opacity-100 focus-visible:opacity-100"
+                              aria-label="Remove image"
+                            >
+                              <XIcon className="size-3" />
+                            </button>
                           </div>
                         ))}
                       </div>
                     </div>
                   )}
+                  <InputError
+                    className="text-xs"
+                    messages={formErrors.images}
+                  />
                 </div>
+                <InputError className="text-xs" messages={formErrors.base} />
                 <Button
                   type="submit"
                   disabled={isSubmitDisabled}
-                  className="mt-2 h-12 w-full rounded-full text-xs font-semibold uppercase tracking-[0.3em]"
+                  className="mt-2 h-12 w-full rounded-full text-xs font-semibold tracking-[0.3em] uppercase"
                 >
-                  {editingEventId ? "Save changes" : "Save vision"}
+                  {isSubmitting
+                    ? "Saving…"
+                    : editingEventId
+                      ? "Save changes"
+                      : "Save vision"}
                 </Button>
+                {editingEvent ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={isSubmitting}
+                      onClick={handleArchiveToggle}
+                      className="h-10 rounded-full text-[11px] font-semibold tracking-[0.25em] uppercase"
+                    >
+                      {editingEvent.archived ? "Restore" : "Archive"}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      disabled={isSubmitting}
+                      onClick={handleDeleteEvent}
+                      className="h-10 rounded-full text-[11px] font-semibold tracking-[0.25em] text-red-600 uppercase hover:bg-red-50 hover:text-red-700"
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                ) : null}
               </div>
             </form>
           </div>
         </SheetContent>
       </Sheet>
+      <VisionSearchDialog
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        search={searchEvents}
+        toneFor={toneFor}
+        onSelect={jumpToEvent}
+      />
     </>
   )
 }
@@ -5,6 +5,7 @@ import { createRoot } from "react-dom/client"
 
 import { initializeTheme } from "@/hooks/use-appearance"
 import PersistentLayout from "@/layouts/persistent-layout"
+import { pwaServiceWorkerPath } from "@/routes"
 
 const appName = import.meta.env.VITE_APP_NAME ?? "Vision Glance"
 
@@ -68,3 +69,12 @@ void createInertiaApp({
 
 // This will set light / dark mode on load...
 initializeTheme()
+
+// Caches the dashboard so the planner still opens without a connection.
+// Skipped in development, where Vite serves assets that change constantly.
+// Without it the planner still works, just not offline.
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  navigator.serviceWorker
+    .register(pwaServiceWorkerPath({ format: "js" }), { scope: "/" })
+    .catch(() => undefined)
+}
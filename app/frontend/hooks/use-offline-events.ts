@@ -0,0 +1,164 @@
+import { router } from "@inertiajs/react"
+import { useEffect, useRef, useState, useSyncExternalStore } from "react"
+import { toast } from "sonner"
+
+import {
+  type SyncResult,
+  applyOperations,
+  replayOperations,
+} from "@/lib/event-sync"
+import {
+  type NewOperation,
+  type QueuedOperation,
+  loadEvents,
+  loadOperations,
+  queueOperation,
+  removeOperations,
+  saveEvents,
+} from "@/lib/offline-store"
+import type { CalendarEvent, DateRange, User } from "@/types"
+
+function subscribeToConnection(callback: () => void) {
+  window.addEventListener("online", callback)
+  window.addEventListener("offline", callback)
+  return () => {
+    window.removeEventListener("online", callback)
+    window.removeEventListener("offline", callback)
+  }
+}
+
+// A failed sync is tried again after a wait that doubles each time, up to
+// the longest one.
+const firstSyncRetryMs = 5_000
+const longestSyncRetryMs = 5 * 60_000
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`
+
+function reportSync(results: SyncResult[]) {
+  const applied = results.filter((result) => result.status === "applied")
+  const conflicts = results.filter((result) => result.status === "conflict")
+  const failed = results.length - applied.length - conflicts.length
+
+  if (conflicts.length > 0) {
+    toast.error(
+      `${plural(conflicts.length, "offline change")} skipped because the vision was edited elsewhere`,
+      {
+        description: conflicts
+          .flatMap((result) => result.event?.label ?? [])
+          .join(", "),
+      },
+    )
+  }
+  if (failed > 0) {
+    toast.error(`${plural(failed, "offline change")} could not be saved`)
+  }
+  if (applied.length > 0) {
+    toast(`Synced ${plural(applied.length, "offline change")}`)
+  }
+}
+
+// Keeps a copy of the visions in IndexedDB and queues changes made while
+// offline, replaying them once the connection is back. The events returned
+// already include the queued changes.
+export function useOfflineEvents(
+  userId: User["id"],
+  events: CalendarEvent[],
+  range: DateRange | null,
+) {
+  const isOnline = useSyncExternalStore(
+    subscribeToConnection,
+    () => navigator.onLine,
+    () => true,
+  )
+  const [storedEvents, setStoredEvents] = useState<CalendarEvent[] | null>(null)
+  const [operations, setOperations] = useState<QueuedOperation[]>([])
+  const isSyncing = useRef(false)
+  const failedSyncs = useRef(0)
+  const retryTimer = useRef<number>(undefined)
+  const [syncAttempt, setSyncAttempt] = useState(0)
+
+  useEffect(() => () => window.clearTimeout(retryTimer.current), [])
+
+  useEffect(() => {
+    loadOperations(userId).then(setOperations, () =>
+      toast.error("Changes saved offline on this device could not be loaded"),
+    )
+  }, [userId])
+
+  useEffect(() => {
+    if (!isOnline) return
+    // The offline copy is a convenience: without storage, the planner only
+    // opens with a connection, as it did before.
+    saveEvents(userId, events, range).catch(() => undefined)
+  }, [userId, events, range, isOnline])
+
+  // A page opened offline comes from the service worker's cache, so the
+  // visions it was rendered with may be out of date.
+  useEffect(() => {
+    if (isOnline) return
+    // Without the stored copy, the planner shows the cached page's visions.
+    loadEvents(userId).then(setStoredEvents, () => setStoredEvents(null))
+  }, [userId, isOnline])
+
+  useEffect(() => {
+    if (!isOnline || operations.length === 0 || isSyncing.current) return
+    isSyncing.current = true
+    const ids = operations.map((operation) => operation.id)
+
+    const sync = async () => {
+      try {
+        const results = await replayOperations(operations)
+        await removeOperations(userId, ids)
+        failedSyncs.current = 0
+        reportSync(results)
+        // Dropping the queued changes only once the saved visions arrive
+        // keeps them from flickering out in between, and syncing again
+        // before then would send them twice.
+        router.reload({
+          only: ["events", "range"],
+          onFinish: () => {
+            setOperations((prev) =>
+              prev.filter((operation) => !ids.includes(operation.id)),
+            )
+            isSyncing.current = false
+          },
+        })
+      } catch {
+        // Only the first failure in a row is reported; the retries after it
+        // stay quiet until one goes through.
+        if (failedSyncs.current === 0) {
+          toast.error("Offline changes could not be synced", {
+            description: "They stay on this device and are sent again later.",
+          })
+        }
+        const delay = Math.min(
+          firstSyncRetryMs * 2 ** failedSyncs.current,
+          longestSyncRetryMs,
+        )
+        failedSyncs.current += 1
+        isSyncing.current = false
+        retryTimer.current = window.setTimeout(
+          () => setSyncAttempt((attempt) => attempt + 1),
+          delay,
+        )
+      }
+    }
+    void sync()
+  }, [userId, operations, isOnline, syncAttempt])
+
+  const queue = async (operation: NewOperation) => {
+    const queued = await queueOperation(userId, operation)
+    setOperations((prev) => [...prev, queued])
+  }
+
+  return {
+    events: applyOperations(
+      isOnline ? events : (storedEvents ?? events),
+      operations,
+    ),
+    isOnline,
+    pendingCount: operations.length,
+    queue,
+  }
+}
@@ -7,10 +7,13 @@ import { Separator } from "@/components/ui/separator"
 import { cn } from "@/lib/utils"
 import {
   settingsAppearancePath,
+  settingsBackupPath,
+  settingsCalendarFeedPath,
   settingsEmailPath,
   settingsPasswordPath,
   settingsProfilePath,
   settingsSessionsPath,
+  settingsTonesPath,
 } from "@/routes"
 import type { NavItem } from "@/types"
 
@@ -35,6 +38,21 @@ const sidebarNavItems: NavItem[] = [
     href: settingsSessionsPath(),
     icon: null,
   },
+  {
+    title: "Calendar feed",
+    href: settingsCalendarFeedPath(),
+    icon: null,
+  },
+  {
+    title: "Palette",
+    href: settingsTonesPath(),
+    icon: null,
+  },
+  {
+    title: "Backup",
+    href: settingsBackupPath(),
+    icon: null,
+  },
   {
     title: "Appearance",
     href: settingsAppearancePath(),
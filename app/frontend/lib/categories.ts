@@ -0,0 +1,17 @@
+import type { Category } from "@/types"
+
+// Mirrors Event::CATEGORIES on the server.
+export const categories: Category[] = [
+  { key: "travel", name: "Travel" },
+  { key: "health", name: "Health" },
+  { key: "career", name: "Career" },
+  { key: "learning", name: "Learning" },
+  { key: "relationships", name: "Relationships" },
+  { key: "creative", name: "Creative" },
+]
+
+export const uncategorized: Category = { key: "uncategorized", name: "Other" }
+
+export function categoryKeyFor(category?: Category["key"] | null) {
+  return category ?? uncategorized.key
+}
@@ -0,0 +1,32 @@
+import { DirectUpload } from "@rails/activestorage"
+
+import { railsDirectUploadsPath, railsServiceBlobPath } from "@/routes"
+import type { VisionImage } from "@/types"
+
+export function uploadImage(
+  file: File,
+  onProgress: (progress: number) => void,
+): Promise<VisionImage> {
+  return new Promise((resolve, reject) => {
+    const upload = new DirectUpload(file, railsDirectUploadsPath(), {
+      directUploadWillStoreFileWithXHR: (request) => {
+        request.upload.addEventListener("progress", (event) => {
+          if (event.lengthComputable) {
+            onProgress(event.loaded / event.total)
+          }
+        })
+      },
+    })
+
+    upload.create((error, blob) => {
+      if (error || !blob) {
+        reject(error ?? new Error(`Upload failed for ${file.name}`))
+        return
+      }
+      resolve({
+        id: blob.signed_id,
+        url: railsServiceBlobPath(blob.signed_id, blob.filename),
+      })
+    })
+  })
+}
@@ -0,0 +1,12 @@
+import { eventsSearchPath } from "@/routes"
+import type { CalendarEvent } from "@/types"
+
+export async function searchEvents(query: string): Promise<CalendarEvent[]> {
+  const response = await fetch(eventsSearchPath({ q: query }), {
+    headers: { Accept: "application/json" },
+  })
+  if (!response.ok) {
+    throw new Error(`Search failed with status ${response.status}`)
+  }
+  return (await response.json()) as CalendarEvent[]
+}
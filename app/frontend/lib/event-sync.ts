@@ -0,0 +1,63 @@
+import type { QueuedOperation } from "@/lib/offline-store"
+import { eventsSyncPath } from "@/routes"
+import type { CalendarEvent, EventErrors } from "@/types"
+
+export interface SyncResult {
+  id: QueuedOperation["id"]
+  status: "applied" | "conflict" | "invalid" | "missing"
+  // The server's copy: the saved vision, or the newer one a conflicting
+  // change was skipped for.
+  event?: CalendarEvent
+  errors?: EventErrors
+}
+
+// Layers changes that have not reached the server yet over the visions it
+// last sent, so queued edits show up in the planner straight away.
+export function applyOperations(
+  events: CalendarEvent[],
+  operations: QueuedOperation[],
+) {
+  return operations.reduce((current, operation) => {
+    if (operation.kind === "delete") {
+      return current.filter((event) => event.id !== operation.eventId)
+    }
+    const payload = operation.event
+    if (!payload) return current
+    const previous = current.find((event) => event.id === operation.eventId)
+    const event: CalendarEvent = {
+      ...previous,
+      ...payload,
+      id: operation.eventId,
+      // Only images already uploaded can be referenced offline.
+      images: payload.images.flatMap(
+        (reference) =>
+          previous?.images.find((image) => image.id === reference.id) ?? [],
+      ),
+    }
+    return previous
+      ? current.map((item) => (item === previous ? event : item))
+      : [...current, event]
+  }, events)
+}
+
+export async function replayOperations(
+  operations: QueuedOperation[],
+): Promise<SyncResult[]> {
+  const token = document
+    .querySelector<HTMLMetaElement>('meta[name="csrf-token"]')
+    ?.getAttribute("content")
+  const response = await fetch(eventsSyncPath(), {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+      ...(token ? { "X-CSRF-Token": token } : {}),
+    },
+    body: JSON.stringify({ operations }),
+  })
+  if (!response.ok) {
+    throw new Error(`Sync failed with status ${response.status}`)
+  }
+  const { results } = (await response.json()) as { results: SyncResult[] }
+  return results
+}
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest"
+
+import { parseIcs } from "@/lib/ics"
+
+function calendar(...events: string[][]) {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n")
+}
+
+describe("parseIcs", () => {
+  it("joins folded lines back together", () => {
+    const [event] = parseIcs(
+      calendar([
+        "UID:trip-1",
+        "SUMMARY:Copenhagen",
+        "  sprint",
+        "DESCRIPTION:Long walks\r\n\talong the harbour",
+        "DTSTART;VALUE=DATE:20260317",
+      ]),
+    )
+
+    expect(event.label).toBe("Copenhagen sprint")
+    expect(event.description).toBe("Long walksalong the harbour")
+  })
+
+  it("unescapes text values", () => {
+    const [event] = parseIcs(
+      calendar([
+        "SUMMARY:Lisbon\\, Porto\\; and back",
+        "DESCRIPTION:Trains\\nFerries\\NA \\\\ in the path",
+        "DTSTART;VALUE=DATE:20260501",
+      ]),
+    )
+
+    expect(event.label).toBe("Lisbon, Porto; and back")
+    expect(event.description).toBe("Trains\nFerries\nA \\ in the path")
+  })
+
+  it("skips quoted colons in parameters", () => {
+    const [event] = parseIcs(
+      calendar([
+        'SUMMARY;ALTREP="https://example.com/trip":Forest retreat',
+        "DTSTART;VALUE=DATE:20260501",
+      ]),
+    )
+
+    expect(event.label).toBe("Forest retreat")
+  })
+
+  describe("dates", () => {
+    it("treats an all-day DTEND as the day after the last day", () => {
+      const [event] = parseIcs(
+        calendar([
+          "SUMMARY:Copenhagen",
+          "DTSTART;VALUE=DATE:20260317",
+          "DTEND;VALUE=DATE:20260324",
+        ]),
+      )
+
+      expect(event).toMatchObject({ start: "2026-03-17", end: "2026-03-23" })
+    })
+
+    it("keeps a one-day all-day event on its day", () => {
+      const [event] = parseIcs(
+        calendar([
+          "SUMMARY:Birthday",
+          "DTSTART;VALUE=DATE:20261231",
+          "DTEND;VALUE=DATE:20270101",
+        ]),
+      )
+
+      expect(event).toMatchObject({ start: "2026-12-31", end: "2026-12-31" })
+    })
+
+    it("ends a timed event on the day of its DTEND", () => {
+      const [event] = parseIcs(
+        calendar([
+          "SUMMARY:Conference",
+          "DTSTART:20260317T090000",
+          "DTEND:20260319T170000",
+        ]),
+      )
+
+      expect(event).toMatchObject({ start: "2026-03-17", end: "2026-03-19" })
+    })
+
+    it("ends a timed event stopping at midnight on the day before", () => {
+      const [event] = parseIcs(
+        calendar([
+          "SUMMARY:Night shift",
+          "DTSTART:20260317T200000",
+          "DTEND:20260319T000000",
+        ]),
+      )
+
+      expect(event).toMatchObject({ start: "2026-03-17", end: "2026-03-18" })
+    })
+
+    it("reads UTC times in the local zone", () => {
+      // 02:00 UTC is still the evening before in New York.
+      const [event] = parseIcs(
+        calendar([
+          "SUMMARY:Late call",
+          "DTSTART:20260317T020000Z",
+          "DTEND:20260317T030000Z",
+        ]),
+      )
+
+      expect(event).toMatchObject({ start: "2026-03-16", end: "2026-03-16" })
+    })
+
+    it("spans the days of an all-day DURATION", () => {
+      const [event] = parseIcs(
+        calendar([
+          "SUMMARY:Retreat",
+          "DTSTART;VALUE=DATE:20260501",
+          "DURATION:P1W2D",
+        ]),
+      )
+
+      expect(event).toMatchObject({ start: "2026-05-01", end: "2026-05-09" })
+    })
+
+    it("never ends before it starts", () => {
+      const [event] = parseIcs(
+        calendar([
+          "SUMMARY:Backwards",
+          "DTSTART;VALUE=DATE:20260317",
+          "DTEND;VALUE=DATE:20260310",
+        ]),
+      )
+
+      expect(event).toMatchObject({ start: "2026-03-17", end: "2026-03-17" })
+    })
+  })
+
+  it("leaves out cancelled events and events without a start", () => {
+    const events = parseIcs(
+      calendar(
+        ["SUMMARY:Cancelled", "STATUS:CANCELLED", "DTSTART:20260317"],
+        ["SUMMARY:No start"],
+        ["SUMMARY:Kept", "DTSTART;VALUE=DATE:20260317"],
+      ),
+    )
+
+    expect(events.map((event) => event.label)).toEqual(["Kept"])
+  })
+
+  it("ignores the properties of nested components", () => {
+    const [event] = parseIcs(
+      calendar([
+        "SUMMARY:Flight",
+        "DTSTART;VALUE=DATE:20260317",
+        "BEGIN:VALARM",
+        "DESCRIPTION:Reminder",
+        "END:VALARM",
+      ]),
+    )
+
+    expect(event.description).toBe("")
+  })
+
+  it("files an event under a matching category", () => {
+    const [event] = parseIcs(
+      calendar([
+        "SUMMARY:Lisbon",
+        "CATEGORIES:Work,Travel",
+        "DTSTART;VALUE=DATE:20260501",
+      ]),
+    )
+
+    expect(event.category).toBe("travel")
+  })
+})
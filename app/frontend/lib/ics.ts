@@ -0,0 +1,200 @@
+import { categories } from "@/lib/categories"
+import { addDays, formatDateKey, startOfDay } from "@/lib/planner-layout"
+import type { Category, EventPayload, Tone } from "@/types"
+
+export interface IcsEvent {
+  uid?: string
+  label: string
+  description: string
+  category: Category["key"] | null
+  start: string
+  end: string
+}
+
+interface ContentLine {
+  name: string
+  value: string
+}
+
+interface IcsDate {
+  date: Date
+  isDate: boolean
+}
+
+const maxDescriptionLength = 2000
+
+// Long lines continue on the next line after a single space or tab.
+function unfold(text: string) {
+  return text.replace(/\r?\n[ \t]/g, "")
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char,
+  )
+}
+
+// The value starts after the first colon outside a quoted parameter; the
+// parameters themselves are not needed.
+function parseLine(line: string): ContentLine | null {
+  let inQuotes = false
+  let colon = -1
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index]
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (char === ":" && !inQuotes) {
+      colon = index
+      break
+    }
+  }
+  if (colon === -1) return null
+  const [name] = line.slice(0, colon).split(";")
+  return { name: name.toUpperCase(), value: line.slice(colon + 1) }
+}
+
+// A DATE (20260317) or a DATE-TIME (20260317T090000, with Z for UTC).
+// Times in a named zone are read as local times; only the day matters here.
+function parseDate(line: ContentLine): IcsDate | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(
+    line.value.trim(),
+  )
+  if (!match) return null
+  const [, year, month, day, hours, minutes, seconds, utc] = match
+  if (!hours) {
+    return {
+      date: new Date(Number(year), Number(month) - 1, Number(day)),
+      isDate: true,
+    }
+  }
+  const parts = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds),
+  ] as const
+  return {
+    date: utc ? new Date(Date.UTC(...parts)) : new Date(...parts),
+    isDate: false,
+  }
+}
+
+function durationDays(value: string) {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?/.exec(value.trim())
+  if (!match) return 0
+  return Number(match[1] ?? 0) * 7 + Number(match[2] ?? 0)
+}
+
+// All-day events end on the day after their last day. Timed events end on
+// the day of DTEND, unless they stop exactly at midnight.
+function lastDay(start: IcsDate, end: IcsDate | null, duration: number) {
+  const startDay = startOfDay(start.date)
+  if (!end) {
+    return start.isDate && duration > 0
+      ? addDays(startDay, duration - 1)
+      : startDay
+  }
+  const endDay = startOfDay(end.date)
+  const isMidnight = end.date.getTime() === endDay.getTime()
+  const day = end.isDate || isMidnight ? addDays(endDay, -1) : endDay
+  return day < startDay ? startDay : day
+}
+
+function categoryFor(value: string | undefined) {
+  if (!value) return null
+  const names = value.split(",").map((name) => name.trim().toLowerCase())
+  const match = categories.find((category) =>
+    names.includes(category.name.toLowerCase()),
+  )
+  return match?.key ?? null
+}
+
+// Reads the VEVENTs of an RFC 5545 file. Recurring events only bring their
+// first occurrence, and cancelled events are left out.
+export function parseIcs(text: string): IcsEvent[] {
+  const events: IcsEvent[] = []
+  let current: Map<string, ContentLine> | null = null
+  let nestedDepth = 0
+
+  for (const rawLine of unfold(text).split(/\r?\n/)) {
+    const line = parseLine(rawLine)
+    if (!line) continue
+    const component = line.value.trim().toUpperCase()
+
+    if (line.name === "BEGIN") {
+      if (current) {
+        nestedDepth += 1
+      } else if (component === "VEVENT") {
+        current = new Map()
+      }
+      continue
+    }
+    if (line.name === "END" && current) {
+      if (nestedDepth > 0) {
+        nestedDepth -= 1
+        continue
+      }
+      if (component === "VEVENT") {
+        const event = toIcsEvent(current)
+        if (event) events.push(event)
+        current = null
+      }
+      continue
+    }
+    if (current && nestedDepth === 0 && !current.has(line.name)) {
+      current.set(line.name, line)
+    }
+  }
+
+  return events
+}
+
+function toIcsEvent(properties: Map<string, ContentLine>): IcsEvent | null {
+  const dtstart = properties.get("DTSTART")
+  const start = dtstart ? parseDate(dtstart) : null
+  const status = properties.get("STATUS")?.value.trim().toUpperCase()
+  if (!start || status === "CANCELLED") return null
+
+  const dtend = properties.get("DTEND")
+  const end = dtend ? parseDate(dtend) : null
+  const duration = durationDays(properties.get("DURATION")?.value ?? "")
+  const summary = unescapeText(properties.get("SUMMARY")?.value ?? "").trim()
+  const description = unescapeText(
+    properties.get("DESCRIPTION")?.value ?? "",
+  ).trim()
+
+  return {
+    uid: properties.get("UID")?.value.trim(),
+    label: summary || "Untitled vision",
+    description: description.slice(0, maxDescriptionLength),
+    category: categoryFor(
+      unescapeText(properties.get("CATEGORIES")?.value ?? ""),
+    ),
+    start: formatDateKey(start.date),
+    end: formatDateKey(lastDay(start, end, duration)),
+  }
+}
+
+export function icsEventPayload(
+  event: IcsEvent,
+  tone: Tone["key"],
+): EventPayload {
+  return {
+    label: event.label,
+    start: event.start,
+    end: event.end,
+    tone,
+    category: event.category,
+    description: event.description,
+    images: [],
+  }
+}
+
+// Matches the server, which skips visions with the same label and dates.
+export function importKey(
+  event: Pick<EventPayload, "label" | "start" | "end">,
+) {
+  return `${event.label}|${event.start}|${event.end}`
+}
@@ -0,0 +1,125 @@
+const fullMaxEdge = 2048
+const thumbnailMaxEdge = 640
+const encodeQuality = 0.85
+
+export interface PreparedImage {
+  full: File
+  thumbnail: File
+}
+
+type ImageSource = ImageBitmap | HTMLImageElement
+
+let webpSupport: boolean | undefined
+
+function supportsWebp() {
+  if (webpSupport === undefined) {
+    const canvas = document.createElement("canvas")
+    canvas.width = 1
+    canvas.height = 1
+    webpSupport = canvas.toDataURL("image/webp").startsWith("data:image/webp")
+  }
+  return webpSupport
+}
+
+function loadImageElement(file: File) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error(`Could not read ${file.name}`))
+    }
+    image.src = url
+  })
+}
+
+// Browsers apply the EXIF orientation when decoding with "from-image", and
+// re-encoding through a canvas drops the EXIF block altogether.
+async function loadImage(file: File): Promise<ImageSource> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" })
+    } catch {
+      // Fall back to an <img>, which also honours EXIF orientation.
+    }
+  }
+  return loadImageElement(file)
+}
+
+function sourceSize(source: ImageSource) {
+  return source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height }
+}
+
+function renderScaled(source: ImageSource, maxEdge: number, opaque: boolean) {
+  const { width, height } = sourceSize(source)
+  const scale = Math.min(1, maxEdge / Math.max(width, height, 1))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+  const context = canvas.getContext("2d")
+  if (!context) {
+    throw new Error("Canvas is not available")
+  }
+  if (opaque) {
+    context.fillStyle = "#ffffff"
+    context.fillRect(0, 0, canvas.width, canvas.height)
+  }
+  context.imageSmoothingQuality = "high"
+  context.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return canvas
+}
+
+function encodeCanvas(canvas: HTMLCanvasElement, type: string) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob)
+        } else {
+          reject(new Error("Could not encode image"))
+        }
+      },
+      type,
+      encodeQuality,
+    )
+  })
+}
+
+function renamed(name: string, suffix: string, type: string) {
+  const base = name.replace(/\.[^.]+$/, "") || "image"
+  const extension = type === "image/webp" ? "webp" : "jpg"
+  return `${base}${suffix}.${extension}`
+}
+
+export async function prepareImage(file: File): Promise<PreparedImage> {
+  const source = await loadImage(file)
+  try {
+    const type = supportsWebp() ? "image/webp" : "image/jpeg"
+    const opaque = type === "image/jpeg"
+    const [fullBlob, thumbnailBlob] = await Promise.all([
+      encodeCanvas(renderScaled(source, fullMaxEdge, opaque), type),
+      encodeCanvas(renderScaled(source, thumbnailMaxEdge, opaque), type),
+    ])
+    // Animated GIFs would lose their frames, so keep the original upload.
+    const full =
+      file.type === "image/gif"
+        ? file
+        : new File([fullBlob], renamed(file.name, "", type), { type })
+    const thumbnail = new File(
+      [thumbnailBlob],
+      renamed(file.name, "-thumb", type),
+      { type },
+    )
+    return { full, thumbnail }
+  } finally {
+    if (!(source instanceof HTMLImageElement)) {
+      source.close()
+    }
+  }
+}
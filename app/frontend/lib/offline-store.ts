@@ -0,0 +1,115 @@
+import type { CalendarEvent, DateRange, EventPayload, User } from "@/types"
+
+export interface QueuedOperation {
+  // Assigned by IndexedDB, so operations replay in the order they were made.
+  id: number
+  // Sent with the operation so the server applies it only once, even when a
+  // sync is repeated after its response was lost.
+  clientId: string
+  kind: "create" | "update" | "delete"
+  eventId: CalendarEvent["id"]
+  // The revision the change was made against; missing for visions created
+  // offline, which nobody else can have changed.
+  baseUpdatedAt?: number
+  event?: EventPayload
+}
+
+export type NewOperation = Omit<QueuedOperation, "id" | "clientId">
+
+const databaseVersion = 1
+const eventsStore = "events"
+const operationsStore = "operations"
+
+// One database per user, so a shared browser never mixes accounts.
+function openDatabase(userId: User["id"]) {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(`vision-glance-${userId}`, databaseVersion)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(eventsStore, { keyPath: "id" })
+      request.result.createObjectStore(operationsStore, {
+        keyPath: "id",
+        autoIncrement: true,
+      })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB"))
+  })
+}
+
+function requestResult<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB"))
+  })
+}
+
+async function transact<T>(
+  userId: User["id"],
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T> | T,
+) {
+  const database = await openDatabase(userId)
+  try {
+    const transaction = database.transaction(storeName, mode)
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onabort = () =>
+        reject(transaction.error ?? new Error("IndexedDB"))
+    })
+    const result = await run(transaction.objectStore(storeName))
+    await done
+    return result
+  } finally {
+    database.close()
+  }
+}
+
+export function loadEvents(userId: User["id"]) {
+  return transact(userId, eventsStore, "readonly", (store) =>
+    requestResult(store.getAll() as IDBRequest<CalendarEvent[]>),
+  )
+}
+
+// Replaces the stored visions in the window the server just sent (or all
+// of them when every vision was loaded), dropping ones deleted since.
+export function saveEvents(
+  userId: User["id"],
+  events: CalendarEvent[],
+  range: DateRange | null,
+) {
+  return transact(userId, eventsStore, "readwrite", async (store) => {
+    const stored = await requestResult(
+      store.getAll() as IDBRequest<CalendarEvent[]>,
+    )
+    for (const event of stored) {
+      const isInRange =
+        !range || (event.start <= range.end && event.end >= range.start)
+      if (isInRange) store.delete(event.id)
+    }
+    for (const event of events) store.put(event)
+  })
+}
+
+export function loadOperations(userId: User["id"]) {
+  return transact(userId, operationsStore, "readonly", (store) =>
+    requestResult(store.getAll() as IDBRequest<QueuedOperation[]>),
+  )
+}
+
+export function queueOperation(userId: User["id"], operation: NewOperation) {
+  const queued = { ...operation, clientId: crypto.randomUUID() }
+  return transact(userId, operationsStore, "readwrite", async (store) => {
+    const id = await requestResult(store.add(queued))
+    return { ...queued, id: id as number }
+  })
+}
+
+export function removeOperations(
+  userId: User["id"],
+  ids: QueuedOperation["id"][],
+) {
+  return transact(userId, operationsStore, "readwrite", (store) => {
+    for (const id of ids) store.delete(id)
+  })
+}
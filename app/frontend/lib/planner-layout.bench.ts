@@ -0,0 +1,140 @@
+import { bench, describe } from "vitest"
+
+import {
+  type GridLayout,
+  type LayoutEvent,
+  type WindowLayout,
+  addDays,
+  calendarYearWindow,
+  layoutWindow,
+  rowHeights,
+  rowOverflow,
+  visibleRowRange,
+} from "@/lib/planner-layout"
+
+// Run with `npm run bench`. Scrolling and resizing redo the row work below
+// on every frame, alongside React and the browser, so a per-frame case whose
+// mean goes over frameBudget fails the run. Laying the windows out again
+// only happens when visions or the column count change, which a resize
+// does each time the width crosses a whole week.
+const frameBudget = 16
+// The first frames run before the JIT has caught up, so they aren't timed.
+const framesSkipped = 20
+const framesChecked = 50
+
+const years = [2025, 2026, 2027]
+const metrics = { laneHeight: 32, laneGap: 8 }
+const gridGap = 6
+
+// The same pseudo-random planner on every run, so results compare.
+function heavyPlanner(count: number): LayoutEvent[] {
+  let seed = 42
+  const next = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    return seed / 2147483648
+  }
+  const first = new Date(years[0], 0, 1)
+  return Array.from({ length: count }, (_, index) => {
+    const startDate = addDays(first, Math.floor(next() * 365 * years.length))
+    // Mostly short visions, with the odd one running for weeks.
+    const length = next() < 0.9 ? Math.floor(next() * 5) : 14 + next() * 60
+    return {
+      id: index,
+      label: `Vision ${index}`,
+      tone: "sea",
+      startDate,
+      endDate: addDays(startDate, Math.floor(length)),
+      createdAt: index,
+    }
+  })
+}
+
+const events = heavyPlanner(1500)
+
+function layoutYears(columns: number, gridLayout: GridLayout) {
+  return years.map((year) =>
+    layoutWindow(calendarYearWindow(year), events, columns, gridLayout),
+  )
+}
+
+function heightsFor(layout: WindowLayout, cellHeight: number) {
+  const overflow = rowOverflow(layout, 3, new Set())
+  return rowHeights(
+    overflow.map((row) => row.lanes),
+    cellHeight,
+    metrics,
+  )
+}
+
+// Tinybench only reports its numbers once a case is done, so the early
+// frames are timed here too, failing the case when their mean is over
+// budget. Vitest only fails the run for an error thrown while a case warms
+// up (a later one leaves the run hanging), so the warmup covers those
+// frames, and the cases pass `throws` or tinybench would swallow the error.
+const perFrame = {
+  throws: true,
+  warmupIterations: framesSkipped + framesChecked,
+}
+
+function withinFrameBudget(name: string, frame: () => void) {
+  let total = 0
+  let frames = 0
+  return () => {
+    const started = performance.now()
+    frame()
+    frames += 1
+    if (frames <= framesSkipped) return
+    total += performance.now() - started
+    const mean = total / (frames - framesSkipped)
+    if (frames === framesSkipped + framesChecked && mean > frameBudget) {
+      throw new Error(
+        `${name} takes ${mean.toFixed(1)}ms a frame, over the ${frameBudget}ms budget`,
+      )
+    }
+  }
+}
+
+describe(`each frame, three years of 1500 visions (budget ${frameBudget}ms)`, () => {
+  const layouts = layoutYears(14, "weeks")
+  const heights = layouts.map((layout) => heightsFor(layout, 128))
+  let cellHeight = 120
+  let columns = 14
+  let resizedLayouts = layouts
+  let scrollTop = 0
+
+  // The width crosses a whole week twice in each sweep of the cell heights,
+  // and the years are laid out again for the new column count.
+  bench(
+    "resizing the day cells",
+    withinFrameBudget("Resizing the day cells", () => {
+      if (cellHeight === 120 || cellHeight === 128) {
+        columns = columns === 14 ? 21 : 14
+        resizedLayouts = layoutYears(columns, "weeks")
+      }
+      resizedLayouts.forEach((layout) => heightsFor(layout, cellHeight))
+      cellHeight = cellHeight === 136 ? 120 : cellHeight + 1
+    }),
+    perFrame,
+  )
+
+  bench(
+    "scrolling",
+    withinFrameBudget("Scrolling", () => {
+      heights.forEach((rows) =>
+        visibleRowRange(rows, gridGap, scrollTop, scrollTop + 900, 2),
+      )
+      scrollTop = (scrollTop + 40) % 8000
+    }),
+    perFrame,
+  )
+})
+
+describe("laying out three years of 1500 visions", () => {
+  bench("in week rows", () => {
+    layoutYears(14, "weeks")
+  })
+
+  bench("in month rows", () => {
+    layoutYears(31, "months")
+  })
+})
@@ -0,0 +1,485 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  type GridBounds,
+  type LayoutEvent,
+  calendarYearWindow,
+  daysBetween,
+  formatDateKey,
+  gridKeyTarget,
+  layoutWindow,
+  rowHeights,
+  rowOverflow,
+  toDate,
+  twelveMonthWindow,
+  visibleRowRange,
+} from "@/lib/planner-layout"
+
+function event(
+  id: LayoutEvent["id"],
+  start: string,
+  end: string,
+  createdAt = 0,
+): LayoutEvent {
+  return {
+    id,
+    label: `${id}`,
+    tone: "sea",
+    startDate: toDate(start),
+    endDate: toDate(end),
+    createdAt,
+  }
+}
+
+const spans = (layout: ReturnType<typeof layoutWindow>) =>
+  layout.segments.map(({ id, row, colStart, span, isStart, isEnd }) => ({
+    id,
+    row,
+    colStart,
+    span,
+    isStart,
+    isEnd,
+  }))
+
+describe("layoutWindow", () => {
+  it("pads the first week row up to the weekday the window starts on", () => {
+    // 2026 starts on a Thursday.
+    const layout = layoutWindow(calendarYearWindow(2026), [], 7, "weeks")
+
+    expect(layout.days).toBe(365)
+    expect(layout.cells.slice(0, 5).map((cell) => cell?.key ?? null)).toEqual([
+      null,
+      null,
+      null,
+      null,
+      "2026-01-01",
+    ])
+    expect(layout.cells).toHaveLength(layout.weekRows * 7)
+    expect(layout.cells.slice(-3).map((cell) => cell?.key ?? null)).toEqual([
+      "2026-12-31",
+      null,
+      null,
+    ])
+  })
+
+  it("splits a range into one segment per week row", () => {
+    const layout = layoutWindow(
+      calendarYearWindow(2026),
+      [event("trip", "2026-01-02", "2026-01-05")],
+      7,
+      "weeks",
+    )
+
+    expect(spans(layout)).toEqual([
+      { id: "trip", row: 1, colStart: 6, span: 2, isStart: true, isEnd: false },
+      { id: "trip", row: 2, colStart: 1, span: 2, isStart: false, isEnd: true },
+    ])
+  })
+
+  describe("leap years", () => {
+    it("includes February 29th in leap years only", () => {
+      const leap = layoutWindow(calendarYearWindow(2028), [], 7, "weeks")
+      const common = layoutWindow(calendarYearWindow(2027), [], 7, "weeks")
+
+      expect(leap.days).toBe(366)
+      expect(common.days).toBe(365)
+      expect(leap.cells.some((cell) => cell?.key === "2028-02-29")).toBe(true)
+      expect(common.cells.some((cell) => cell?.key === "2027-02-29")).toBe(
+        false,
+      )
+    })
+
+    it("counts February 29th inside a range that crosses it", () => {
+      // 2028 starts on a Saturday, so February 28th is the 65th cell.
+      const layout = layoutWindow(
+        calendarYearWindow(2028),
+        [event("leap", "2028-02-28", "2028-03-01")],
+        7,
+        "weeks",
+      )
+
+      expect(spans(layout)).toEqual([
+        {
+          id: "leap",
+          row: 10,
+          colStart: 2,
+          span: 3,
+          isStart: true,
+          isEnd: true,
+        },
+      ])
+    })
+
+    it("gives February 29 days in a leap year's month row", () => {
+      const leap = layoutWindow(calendarYearWindow(2028), [], 31, "months")
+      const common = layoutWindow(calendarYearWindow(2027), [], 31, "months")
+      const february = (layout: ReturnType<typeof layoutWindow>) =>
+        layout.cells.slice(31, 62).filter(Boolean).length
+
+      expect(february(leap)).toBe(29)
+      expect(february(common)).toBe(28)
+    })
+  })
+
+  describe("year boundaries", () => {
+    const newYear = event("new-year", "2025-12-28", "2026-01-03")
+
+    it("clips a range that starts in the previous year", () => {
+      const layout = layoutWindow(
+        calendarYearWindow(2026),
+        [newYear],
+        7,
+        "weeks",
+      )
+
+      expect(spans(layout)).toEqual([
+        {
+          id: "new-year",
+          row: 1,
+          colStart: 5,
+          span: 3,
+          isStart: false,
+          isEnd: true,
+        },
+      ])
+    })
+
+    it("clips a range that ends in the next year", () => {
+      const layout = layoutWindow(
+        calendarYearWindow(2025),
+        [newYear],
+        7,
+        "weeks",
+      )
+      const [segment] = layout.segments
+
+      expect(layout.segments).toHaveLength(1)
+      expect(segment).toMatchObject({ isStart: true, isEnd: false, span: 4 })
+    })
+
+    it("clips at the edges of a twelve month window", () => {
+      const window = twelveMonthWindow(new Date(2026, 8, 1))
+      const layout = layoutWindow(
+        window,
+        [
+          event("before", "2026-08-01", "2026-08-31"),
+          event("across", "2027-08-30", "2027-09-04"),
+        ],
+        31,
+        "months",
+      )
+
+      expect(window.end).toEqual(new Date(2027, 7, 31))
+      expect(spans(layout)).toEqual([
+        {
+          id: "across",
+          row: 12,
+          colStart: 30,
+          span: 2,
+          isStart: true,
+          isEnd: false,
+        },
+      ])
+    })
+  })
+
+  describe("daylight saving", () => {
+    it("counts whole days across the clock changes", () => {
+      expect(daysBetween(new Date(2026, 2, 7), new Date(2026, 2, 9))).toBe(2)
+      expect(daysBetween(new Date(2026, 9, 31), new Date(2026, 10, 2))).toBe(2)
+    })
+
+    it("keeps every day in its own cell", () => {
+      const layout = layoutWindow(calendarYearWindow(2026), [], 7, "weeks")
+      const keys = layout.cells.flatMap((cell) => cell?.key ?? [])
+
+      expect(keys).toHaveLength(365)
+      expect(new Set(keys).size).toBe(365)
+      expect(layout.cells[4 + 66]?.key).toBe("2026-03-08")
+      expect(layout.cells[4 + 304]?.key).toBe("2026-11-01")
+    })
+
+    it("lays out a range across the spring change without losing a day", () => {
+      const layout = layoutWindow(
+        calendarYearWindow(2026),
+        [event("spring", "2026-03-06", "2026-03-10")],
+        7,
+        "weeks",
+      )
+
+      expect(spans(layout)).toEqual([
+        {
+          id: "spring",
+          row: 10,
+          colStart: 6,
+          span: 2,
+          isStart: true,
+          isEnd: false,
+        },
+        {
+          id: "spring",
+          row: 11,
+          colStart: 1,
+          span: 3,
+          isStart: false,
+          isEnd: true,
+        },
+      ])
+    })
+  })
+
+  describe("reversed ranges", () => {
+    it("lays out the corrected range", () => {
+      const window = calendarYearWindow(2026)
+      const reversed = layoutWindow(
+        window,
+        [event("trip", "2026-01-05", "2026-01-02")],
+        7,
+        "weeks",
+      )
+      const ordered = layoutWindow(
+        window,
+        [event("trip", "2026-01-02", "2026-01-05")],
+        7,
+        "weeks",
+      )
+
+      expect(reversed.segments).toEqual(ordered.segments)
+    })
+  })
+
+  describe("stacking", () => {
+    it("stacks overlapping segments and reuses free lanes", () => {
+      const layout = layoutWindow(
+        calendarYearWindow(2026),
+        [
+          event("a", "2026-01-04", "2026-01-06"),
+          event("b", "2026-01-05", "2026-01-07"),
+          event("c", "2026-01-07", "2026-01-08"),
+        ],
+        7,
+        "weeks",
+      )
+      const lanes = Object.fromEntries(
+        layout.segments.map((segment) => [segment.id, segment.stackIndex]),
+      )
+
+      expect(lanes).toEqual({ a: 0, b: 1, c: 0 })
+      expect(layout.maxStackByRow.slice(0, 3)).toEqual([0, 2, 0])
+    })
+
+    it("keeps a vision on one lane across the rows it wraps onto", () => {
+      const layout = layoutWindow(
+        calendarYearWindow(2026),
+        [
+          event("shorter", "2026-01-01", "2026-01-14"),
+          event("longer", "2026-01-06", "2026-01-20"),
+        ],
+        7,
+        "weeks",
+      )
+      const lanesOf = (id: string) =>
+        layout.segments
+          .filter((segment) => segment.id === id)
+          .map((segment) => segment.stackIndex)
+
+      expect(lanesOf("longer")).toEqual([0, 0, 0])
+      expect(lanesOf("shorter")).toEqual([1, 1, 1])
+      expect(layout.maxStackByRow.slice(0, 4)).toEqual([2, 2, 2, 1])
+    })
+
+    it("gives longer visions the upper lanes", () => {
+      const layout = layoutWindow(
+        calendarYearWindow(2026),
+        [
+          event("day", "2026-01-05", "2026-01-05", 2),
+          event("week", "2026-01-04", "2026-01-10", 1),
+        ],
+        7,
+        "weeks",
+      )
+
+      expect(
+        layout.segments.map((segment) => [segment.id, segment.stackIndex]),
+      ).toEqual([
+        ["week", 0],
+        ["day", 1],
+      ])
+    })
+
+    it("puts the newer of two segments starting together on top", () => {
+      const layout = layoutWindow(
+        calendarYearWindow(2026),
+        [
+          event("older", "2026-01-04", "2026-01-05", 1),
+          event("newer", "2026-01-04", "2026-01-05", 2),
+        ],
+        7,
+        "weeks",
+      )
+
+      expect(layout.segments.map((segment) => segment.id)).toEqual([
+        "newer",
+        "older",
+      ])
+      expect(layout.segments.map((segment) => segment.stackIndex)).toEqual([
+        0, 1,
+      ])
+    })
+  })
+})
+
+describe("rowHeights", () => {
+  it("adds the height of each row's lanes to the cell height", () => {
+    const layout = layoutWindow(
+      calendarYearWindow(2026),
+      [
+        event("a", "2026-01-04", "2026-01-06"),
+        event("b", "2026-01-05", "2026-01-07"),
+        event("c", "2026-01-12", "2026-01-13"),
+      ],
+      7,
+      "weeks",
+    )
+
+    expect(
+      rowHeights(layout.maxStackByRow, 64, {
+        laneHeight: 32,
+        laneGap: 8,
+      }).slice(0, 4),
+    ).toEqual([64, 64 + 72, 64 + 32, 64])
+  })
+})
+
+describe("rowOverflow", () => {
+  // Four visions overlapping in the week of January 4th, 2026.
+  const layout = layoutWindow(
+    calendarYearWindow(2026),
+    [
+      event("a", "2026-01-04", "2026-01-10"),
+      event("b", "2026-01-05", "2026-01-08"),
+      event("c", "2026-01-06", "2026-01-07"),
+      event("d", "2026-01-07", "2026-01-07"),
+      event("e", "2026-01-12", "2026-01-13"),
+    ],
+    7,
+    "weeks",
+  )
+
+  it("leaves rows that fit alone", () => {
+    const [first, , third] = rowOverflow(layout, 3, new Set())
+
+    expect(first).toEqual({
+      lanes: 0,
+      segmentLanes: 0,
+      hiddenCount: 0,
+      isExpanded: false,
+    })
+    expect(third).toEqual({
+      lanes: 1,
+      segmentLanes: 1,
+      hiddenCount: 0,
+      isExpanded: false,
+    })
+  })
+
+  it("collapses the lanes that don't fit behind a chip", () => {
+    expect(rowOverflow(layout, 3, new Set())[1]).toEqual({
+      lanes: 3,
+      segmentLanes: 2,
+      hiddenCount: 2,
+      isExpanded: false,
+    })
+  })
+
+  it("draws every lane of an expanded row, plus the chip", () => {
+    expect(rowOverflow(layout, 3, new Set([2]))[1]).toEqual({
+      lanes: 5,
+      segmentLanes: 4,
+      hiddenCount: 2,
+      isExpanded: true,
+    })
+  })
+})
+
+describe("visibleRowRange", () => {
+  // Ten rows of 100px with 10px between them: row n starts at (n - 1) * 110.
+  const heights = Array.from({ length: 10 }, () => 100)
+
+  it("draws the rows in the viewport plus the overscan", () => {
+    expect(visibleRowRange(heights, 10, 250, 500, 1)).toEqual({
+      first: 2,
+      last: 6,
+    })
+  })
+
+  it("draws the first rows while the grid is below the viewport", () => {
+    expect(visibleRowRange(heights, 10, -900, -100, 2)).toEqual({
+      first: 1,
+      last: 2,
+    })
+  })
+
+  it("draws the last rows once the grid has scrolled past", () => {
+    expect(visibleRowRange(heights, 10, 1400, 2200, 2)).toEqual({
+      first: 9,
+      last: 10,
+    })
+  })
+})
+
+describe("gridKeyTarget", () => {
+  const window = calendarYearWindow(2026)
+  const weeks: GridBounds = {
+    columns: 14,
+    gridLayout: "weeks",
+    first: window.start,
+    last: window.end,
+  }
+  const target = (
+    key: string,
+    date: string,
+    bounds = weeks,
+    toEdge = false,
+  ) => {
+    const moved = gridKeyTarget(key, toDate(date), bounds, toEdge)
+    return moved && formatDateKey(moved)
+  }
+
+  it("moves by a day and by a row of the grid", () => {
+    expect(target("ArrowLeft", "2026-03-01")).toBe("2026-02-28")
+    expect(target("ArrowRight", "2026-03-01")).toBe("2026-03-02")
+    expect(target("ArrowUp", "2026-03-20")).toBe("2026-03-06")
+    expect(target("ArrowDown", "2026-03-20")).toBe("2026-04-03")
+  })
+
+  it("moves to the same day of the next month in month rows", () => {
+    const months: GridBounds = { ...weeks, columns: 31, gridLayout: "months" }
+
+    expect(target("ArrowDown", "2026-01-31", months)).toBe("2026-02-28")
+    expect(target("ArrowUp", "2026-03-15", months)).toBe("2026-02-15")
+  })
+
+  it("jumps to the ends of the week, or of the grid", () => {
+    // March 18th, 2026 is a Wednesday.
+    expect(target("Home", "2026-03-18")).toBe("2026-03-15")
+    expect(target("End", "2026-03-18")).toBe("2026-03-21")
+    expect(target("Home", "2026-03-18", weeks, true)).toBe("2026-01-01")
+    expect(target("End", "2026-03-18", weeks, true)).toBe("2026-12-31")
+  })
+
+  it("pages by month", () => {
+    expect(target("PageUp", "2026-03-31")).toBe("2026-02-28")
+    expect(target("PageDown", "2026-03-18")).toBe("2026-04-18")
+  })
+
+  it("keeps focus inside the grid", () => {
+    expect(target("ArrowLeft", "2026-01-01")).toBe("2026-01-01")
+    expect(target("PageDown", "2026-12-10")).toBe("2026-12-31")
+    expect(target("Home", "2026-01-02")).toBe("2026-01-01")
+  })
+
+  it("ignores keys that don't move focus", () => {
+    expect(target("Enter", "2026-03-18")).toBeNull()
+  })
+})
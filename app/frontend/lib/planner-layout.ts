@@ -0,0 +1,484 @@
+// Lays a planner window out as a grid: the day cells, and each event split
+// into one segment per grid row, stacked into lanes where they overlap.
+// Dates are local calendar days; nothing here depends on the time of day.
+
+// Week rows flow the days continuously; month rows start every month on a
+// new row with the days lined up by date.
+export type GridLayout = "weeks" | "months"
+
+export interface PlannerWindow {
+  key: string
+  title: string
+  start: Date
+  end: Date
+}
+
+export interface LayoutEvent {
+  id: string | number
+  label: string
+  tone: string
+  startDate: Date
+  endDate: Date
+  // Breaks ties between visions of the same length starting the same day.
+  createdAt?: number
+}
+
+export interface GridRowSpan {
+  row: number
+  colStart: number
+  span: number
+  colEnd: number
+}
+
+export interface EventSegment extends GridRowSpan {
+  id: LayoutEvent["id"]
+  label: string
+  tone: LayoutEvent["tone"]
+  isStart: boolean
+  isEnd: boolean
+  createdAt: number
+  stackIndex: number
+}
+
+export interface WindowDay {
+  date: Date
+  key: string
+  dayNumber: number
+  monthIndex: number
+  isMonthStart: boolean
+  isWeekend: boolean
+}
+
+export interface WindowLayout {
+  window: PlannerWindow
+  days: number
+  // Row-major, with null for the padding before and after the window.
+  cells: (WindowDay | null)[]
+  weekRows: number
+  segments: EventSegment[]
+  // Lanes used in each row, indexed from the first row.
+  maxStackByRow: number[]
+}
+
+export interface LaneMetrics {
+  laneHeight: number
+  laneGap: number
+}
+
+export const monthNames = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+]
+
+export function formatDateKey(date: Date) {
+  const year = date.getFullYear()
+  const month = `${date.getMonth() + 1}`.padStart(2, "0")
+  const day = `${date.getDate()}`.padStart(2, "0")
+  return `${year}-${month}-${day}`
+}
+
+export function toDate(value: string) {
+  const [year, month, day] = value.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+export function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+// Whole days from one date to another, counted on the calendar so that
+// daylight saving changes never shift the result.
+export function daysBetween(from: Date, to: Date) {
+  const fromDay = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())
+  const toDay = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate())
+  return Math.round((toDay - fromDay) / 86400000)
+}
+
+export function monthsBetween(from: Date, to: Date) {
+  return (
+    (to.getFullYear() - from.getFullYear()) * 12 +
+    to.getMonth() -
+    from.getMonth()
+  )
+}
+
+export function calendarYearWindow(year: number): PlannerWindow {
+  return {
+    key: `year-${year}`,
+    title: `${year}`,
+    start: new Date(year, 0, 1),
+    end: new Date(year, 11, 31),
+  }
+}
+
+export function twelveMonthWindow(start: Date): PlannerWindow {
+  const end = addDays(
+    new Date(start.getFullYear() + 1, start.getMonth(), start.getDate()),
+    -1,
+  )
+  const title = [start, end]
+    .map(
+      (date) =>
+        `${monthNames[date.getMonth()].slice(0, 3)} ${date.getFullYear()}`,
+    )
+    .join(" – ")
+  return { key: `window-${formatDateKey(start)}`, title, start, end }
+}
+
+// Splits a run of grid cells into one span per week row, so a range that
+// wraps past the last column continues at the start of the next row.
+function splitIntoRowSpans(
+  startIndex: number,
+  endIndex: number,
+  columns: number,
+) {
+  const spans: GridRowSpan[] = []
+  let currentIndex = startIndex
+  while (currentIndex <= endIndex) {
+    const row = Math.floor(currentIndex / columns)
+    const rowEnd = row * columns + (columns - 1)
+    const spanEnd = Math.min(endIndex, rowEnd)
+    const span = spanEnd - currentIndex + 1
+    const colStart = (currentIndex % columns) + 1
+    spans.push({ row: row + 1, colStart, span, colEnd: colStart + span - 1 })
+    currentIndex = spanEnd + 1
+  }
+  return spans
+}
+
+// One span per month row, with columns numbered by day of the month.
+function splitIntoMonthSpans(window: PlannerWindow, first: Date, last: Date) {
+  const spans: GridRowSpan[] = []
+  let cursor = first
+  while (cursor <= last) {
+    const monthEnd = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0)
+    const spanEnd = monthEnd < last ? monthEnd : last
+    const colStart = cursor.getDate()
+    const span = spanEnd.getDate() - colStart + 1
+    spans.push({
+      row: monthsBetween(window.start, cursor) + 1,
+      colStart,
+      span,
+      colEnd: colStart + span - 1,
+    })
+    cursor = addDays(spanEnd, 1)
+  }
+  return spans
+}
+
+// Maps a date range onto a window's grid cells, clipping it at the window
+// edges the same way a calendar year clips ranges that cross New Year.
+export function windowRowSpans(
+  window: PlannerWindow,
+  startDate: Date,
+  endDate: Date,
+  columns: number,
+  gridLayout: GridLayout,
+) {
+  if (endDate < window.start || startDate > window.end) return []
+  const first = startDate < window.start ? window.start : startDate
+  const last = endDate > window.end ? window.end : endDate
+  if (gridLayout === "months") {
+    return splitIntoMonthSpans(window, first, last)
+  }
+  const offset = window.start.getDay()
+  return splitIntoRowSpans(
+    offset + daysBetween(window.start, first),
+    offset + daysBetween(window.start, last),
+    columns,
+  )
+}
+
+function windowDay(date: Date, isWindowStart: boolean): WindowDay {
+  return {
+    date,
+    key: formatDateKey(date),
+    dayNumber: date.getDate(),
+    monthIndex: date.getMonth(),
+    isMonthStart: date.getDate() === 1 || isWindowStart,
+    isWeekend: date.getDay() === 0 || date.getDay() === 6,
+  }
+}
+
+function windowCells(
+  window: PlannerWindow,
+  days: number,
+  columns: number,
+  gridLayout: GridLayout,
+) {
+  if (gridLayout === "months") {
+    const rows = monthsBetween(window.start, window.end) + 1
+    return Array.from({ length: rows * columns }, (_, index) => {
+      const month = window.start.getMonth() + Math.floor(index / columns)
+      const date = new Date(
+        window.start.getFullYear(),
+        month,
+        (index % columns) + 1,
+      )
+      // Skip the 29th–31st of short months and days outside the window.
+      if (
+        date.getMonth() !== month % 12 ||
+        date < window.start ||
+        date > window.end
+      ) {
+        return null
+      }
+      return windowDay(date, daysBetween(window.start, date) === 0)
+    })
+  }
+  const offset = window.start.getDay()
+  const totalCells = offset + days
+  const gridCells = totalCells + ((columns - (totalCells % columns)) % columns)
+  return Array.from({ length: gridCells }, (_, index) => {
+    const dayIndex = index - offset
+    if (dayIndex < 0 || dayIndex >= days) {
+      return null
+    }
+    return windowDay(addDays(window.start, dayIndex), dayIndex === 0)
+  })
+}
+
+type UnstackedSegment = Omit<EventSegment, "stackIndex">
+
+interface PlacedEvent {
+  days: number
+  startDate: Date
+  createdAt: number
+  segments: UnstackedSegment[]
+}
+
+// Lanes are assigned per vision rather than per row, so one that wraps onto
+// the next row keeps its lane and reads as one bar. Longer visions are
+// placed first and take the upper lanes; ties go to the earlier start, then
+// to the newer vision. Each vision takes the first lane that is free on
+// every row it crosses.
+function packLanes(placed: PlacedEvent[]) {
+  const lanesByRow = new Map<number, [number, number][][]>()
+  const isFree = (segment: UnstackedSegment, lane: number) =>
+    !(lanesByRow.get(segment.row)?.[lane] ?? []).some(
+      ([colStart, colEnd]) =>
+        segment.colStart <= colEnd && colStart <= segment.colEnd,
+    )
+
+  const segments = [...placed]
+    .sort(
+      (a, b) =>
+        b.days - a.days ||
+        a.startDate.getTime() - b.startDate.getTime() ||
+        b.createdAt - a.createdAt,
+    )
+    .flatMap((event) => {
+      let lane = 0
+      while (!event.segments.every((segment) => isFree(segment, lane))) {
+        lane += 1
+      }
+      return event.segments.map((segment): EventSegment => {
+        const lanes = lanesByRow.get(segment.row) ?? []
+        while (lanes.length <= lane) lanes.push([])
+        lanes[lane].push([segment.colStart, segment.colEnd])
+        lanesByRow.set(segment.row, lanes)
+        return { ...segment, stackIndex: lane }
+      })
+    })
+    .sort(
+      (a, b) =>
+        a.row - b.row || a.colStart - b.colStart || a.stackIndex - b.stackIndex,
+    )
+  return { segments, lanesByRow }
+}
+
+// Events whose end comes before their start are laid out over the same
+// days as the corrected range.
+export function layoutWindow(
+  window: PlannerWindow,
+  events: LayoutEvent[],
+  columns: number,
+  gridLayout: GridLayout,
+): WindowLayout {
+  const days = daysBetween(window.start, window.end) + 1
+  const cells = windowCells(window, days, columns, gridLayout)
+  const weekRows = Math.ceil(cells.length / columns)
+
+  const placed = events.map((event): PlacedEvent => {
+    const [startDate, endDate] =
+      event.startDate <= event.endDate
+        ? [event.startDate, event.endDate]
+        : [event.endDate, event.startDate]
+    const createdAt = event.createdAt ?? 0
+    const rowSpans = windowRowSpans(
+      window,
+      startDate,
+      endDate,
+      columns,
+      gridLayout,
+    )
+    return {
+      days: daysBetween(startDate, endDate) + 1,
+      startDate,
+      createdAt,
+      segments: rowSpans.map((rowSpan, index) => ({
+        id: event.id,
+        label: event.label,
+        tone: event.tone,
+        ...rowSpan,
+        isStart: index === 0 && startDate >= window.start,
+        isEnd: index === rowSpans.length - 1 && endDate <= window.end,
+        createdAt,
+      })),
+    }
+  })
+
+  const { segments, lanesByRow } = packLanes(placed)
+  const maxStackByRow = Array.from(
+    { length: weekRows },
+    (_, index) => lanesByRow.get(index + 1)?.length ?? 0,
+  )
+
+  return { window, days, cells, weekRows, segments, maxStackByRow }
+}
+
+// Height taken by a row's stacked lanes, without the day cell beneath.
+export function stackHeight(lanes: number, metrics: LaneMetrics) {
+  return lanes > 0
+    ? lanes * metrics.laneHeight + (lanes - 1) * metrics.laneGap
+    : 0
+}
+
+export function rowHeights(
+  lanesByRow: number[],
+  cellHeight: number,
+  metrics: LaneMetrics,
+) {
+  return lanesByRow.map((lanes) => cellHeight + stackHeight(lanes, metrics))
+}
+
+export interface RowOverflow {
+  // Lane slots the row needs, counting the chip's.
+  lanes: number
+  // Lanes whose segments are drawn; the rest are behind the chip.
+  segmentLanes: number
+  hiddenCount: number
+  isExpanded: boolean
+}
+
+// A row with more lanes than `maxLanes` keeps the first `maxLanes - 1` and
+// spends the last slot on a "+N more" chip. Expanded rows draw every lane
+// and add a slot below them for the chip that collapses them again.
+export function rowOverflow(
+  layout: WindowLayout,
+  maxLanes: number,
+  expandedRows: ReadonlySet<number>,
+): RowOverflow[] {
+  return layout.maxStackByRow.map((lanes, index) => {
+    const row = index + 1
+    if (lanes <= maxLanes) {
+      return { lanes, segmentLanes: lanes, hiddenCount: 0, isExpanded: false }
+    }
+    const segmentLanes = maxLanes - 1
+    const hiddenCount = layout.segments.filter(
+      (segment) => segment.row === row && segment.stackIndex >= segmentLanes,
+    ).length
+    return expandedRows.has(row)
+      ? { lanes: lanes + 1, segmentLanes: lanes, hiddenCount, isExpanded: true }
+      : { lanes: maxLanes, segmentLanes, hiddenCount, isExpanded: false }
+  })
+}
+
+export interface RowRange {
+  // Grid rows counted from 1, both ends included; empty when `last` is
+  // below `first`.
+  first: number
+  last: number
+}
+
+// The rows of a grid that fall between `top` and `bottom`, measured in
+// pixels from the top of the grid, widened by `overscan` rows on each side.
+// A viewport above or below the grid still gets the `overscan` rows at the
+// nearest edge, so they are ready before they scroll into view.
+export function visibleRowRange(
+  heights: number[],
+  gap: number,
+  top: number,
+  bottom: number,
+  overscan: number,
+): RowRange {
+  let firstIndex = heights.length
+  let lastIndex = -1
+  let rowTop = 0
+  heights.forEach((height, index) => {
+    const rowBottom = rowTop + height
+    if (rowBottom >= top && firstIndex === heights.length) firstIndex = index
+    if (rowTop <= bottom) lastIndex = index
+    rowTop = rowBottom + gap
+  })
+  return {
+    first: Math.max(0, firstIndex - overscan) + 1,
+    last: Math.min(heights.length - 1, lastIndex + overscan) + 1,
+  }
+}
+
+export interface GridBounds {
+  columns: number
+  gridLayout: GridLayout
+  // The first and last days in the grid; focus never leaves them.
+  first: Date
+  last: Date
+}
+
+// The same day of the month `months` away, or the last day of that month
+// when it is shorter.
+function addMonths(date: Date, months: number) {
+  const lastDay = new Date(
+    date.getFullYear(),
+    date.getMonth() + months + 1,
+    0,
+  ).getDate()
+  return new Date(
+    date.getFullYear(),
+    date.getMonth() + months,
+    Math.min(date.getDate(), lastDay),
+  )
+}
+
+// The day focus moves to when `key` is pressed on `date`, following the
+// WAI-ARIA grid and date picker patterns: arrows move a day or a row, Home
+// and End to the ends of the week (or of the grid with `toEdge`), and Page
+// Up and Page Down by a month. Null for keys that don't move focus.
+export function gridKeyTarget(
+  key: string,
+  date: Date,
+  { columns, gridLayout, first, last }: GridBounds,
+  toEdge = false,
+) {
+  const rowStep = (step: number) =>
+    gridLayout === "months"
+      ? addMonths(date, step)
+      : addDays(date, step * columns)
+  const moves: Record<string, (() => Date) | undefined> = {
+    ArrowLeft: () => addDays(date, -1),
+    ArrowRight: () => addDays(date, 1),
+    ArrowUp: () => rowStep(-1),
+    ArrowDown: () => rowStep(1),
+    Home: () => (toEdge ? first : addDays(date, -date.getDay())),
+    End: () => (toEdge ? last : addDays(date, 6 - date.getDay())),
+    PageUp: () => addMonths(date, -1),
+    PageDown: () => addMonths(date, 1),
+  }
+  const target = moves[key]?.()
+  if (!target) return null
+  return target < first ? first : target > last ? last : target
+}
@@ -0,0 +1,576 @@
+export type PosterFormat = "svg" | "png" | "pdf"
+export type PaperSize = "a4" | "a3" | "letter"
+export type PdfLayout = "single" | "pages"
+
+export interface PosterDay {
+  dayNumber: number
+  monthLabel?: string
+  isWeekend: boolean
+}
+
+// Rows and lanes are zero-based; columns start at 1 like the CSS grid.
+export interface PosterSegment {
+  row: number
+  colStart: number
+  span: number
+  lane: number
+  label: string
+  color: string
+  textColor: string
+  isStart: boolean
+  isEnd: boolean
+  thumbnailUrl?: string
+}
+
+export interface PosterWindow {
+  title: string
+  rows: number
+  cells: (PosterDay | null)[]
+  segments: PosterSegment[]
+}
+
+export interface Poster {
+  title: string
+  subtitle: string
+  columns: number
+  columnLabels: string[]
+  windows: PosterWindow[]
+}
+
+export interface PosterOptions {
+  format: PosterFormat
+  paper: PaperSize
+  pdfLayout: PdfLayout
+  thumbnails: boolean
+}
+
+interface PosterSlice {
+  windowIndex: number
+  rowStart: number
+  rowEnd: number
+}
+
+interface PdfPage {
+  width: number
+  height: number
+  image: Uint8Array
+  pixelWidth: number
+  pixelHeight: number
+  x: number
+  y: number
+  drawWidth: number
+  drawHeight: number
+}
+
+// Portrait sizes in PDF points.
+export const paperSizes: Record<
+  PaperSize,
+  { name: string; width: number; height: number }
+> = {
+  a4: { name: "A4", width: 595.28, height: 841.89 },
+  a3: { name: "A3", width: 841.89, height: 1190.55 },
+  letter: { name: "Letter", width: 612, height: 792 },
+}
+
+const cellWidth = 44
+const dayLabelHeight = 22
+const laneHeight = 20
+const laneGap = 4
+const rowPadding = 8
+const margin = 48
+const titleHeight = 76
+const windowTitleHeight = 26
+const columnLabelHeight = 20
+const windowGap = 32
+const fontFamily = "'Space Grotesk', 'Helvetica Neue', Arial, sans-serif"
+
+const pdfMargin = 28
+const pdfDpi = 200
+const pngScale = 3
+const maxCanvasEdge = 12000
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function laneCounts(window: PosterWindow) {
+  const counts = Array.from({ length: window.rows }, () => 0)
+  window.segments.forEach((segment) => {
+    counts[segment.row] = Math.max(counts[segment.row], segment.lane + 1)
+  })
+  return counts
+}
+
+function rowHeight(lanes: number) {
+  return (
+    dayLabelHeight + Math.max(lanes, 1) * (laneHeight + laneGap) + rowPadding
+  )
+}
+
+function posterWidth(poster: Poster) {
+  return margin * 2 + poster.columns * cellWidth
+}
+
+function sliceHeaderHeight(poster: Poster) {
+  return (poster.windows.length > 1 ? windowTitleHeight : 0) + columnLabelHeight
+}
+
+// A pill with rounded ends only where the vision starts or ends, so a
+// vision that wraps onto the next row reads as one continuous band.
+function pillPath(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  isStart: boolean,
+  isEnd: boolean,
+) {
+  const radius = Math.min(height / 2, width / 2)
+  const left = isStart ? radius : 0
+  const right = isEnd ? radius : 0
+  return [
+    `M${x + left},${y}`,
+    `H${x + width - right}`,
+    right ? `A${right},${right} 0 0 1 ${x + width},${y + right}` : "",
+    `V${y + height - right}`,
+    right ? `A${right},${right} 0 0 1 ${x + width - right},${y + height}` : "",
+    `H${x + left}`,
+    left ? `A${left},${left} 0 0 1 ${x},${y + height - left}` : "",
+    `V${y + left}`,
+    left ? `A${left},${left} 0 0 1 ${x + left},${y}` : "",
+    "Z",
+  ].join("")
+}
+
+function renderSlice(
+  poster: Poster,
+  slice: PosterSlice,
+  top: number,
+  images: Map<string, string>,
+  idPrefix: string,
+) {
+  const window = poster.windows[slice.windowIndex]
+  const lanes = laneCounts(window)
+  const parts: string[] = []
+  let y = top
+
+  if (poster.windows.length > 1) {
+    parts.push(
+      `<text x="${margin}" y="${y + 16}" font-size="13" font-weight="600" letter-spacing="3" fill="#64748b">${escapeXml(window.title.toUpperCase())}</text>`,
+    )
+    y += windowTitleHeight
+  }
+  poster.columnLabels.forEach((label, index) => {
+    const x = margin + index * cellWidth + cellWidth / 2
+    parts.push(
+      `<text x="${x}" y="${y + 12}" font-size="9" letter-spacing="1.5" text-anchor="middle" fill="#94a3b8">${escapeXml(label.toUpperCase())}</text>`,
+    )
+  })
+  y += columnLabelHeight
+
+  for (let row = slice.rowStart; row < slice.rowEnd; row += 1) {
+    const height = rowHeight(lanes[row])
+    for (let column = 0; column < poster.columns; column += 1) {
+      const day = window.cells[row * poster.columns + column]
+      if (!day) continue
+      const x = margin + column * cellWidth
+      parts.push(
+        `<rect x="${x}" y="${y}" width="${cellWidth}" height="${height}" fill="${day.isWeekend ? "#f8fafc" : "#ffffff"}" stroke="#e2e8f0" stroke-width="0.75"/>`,
+        `<text x="${x + 5}" y="${y + 14}" font-size="9" font-weight="600" fill="#334155">${day.dayNumber}</text>`,
+      )
+      if (day.monthLabel) {
+        parts.push(
+          `<text x="${x + cellWidth - 5}" y="${y + 14}" font-size="8" font-weight="700" letter-spacing="1" text-anchor="end" fill="#0f172a">${escapeXml(day.monthLabel.toUpperCase())}</text>`,
+        )
+      }
+    }
+
+    window.segments
+      .filter((segment) => segment.row === row)
+      .forEach((segment, index) => {
+        const id = `${idPrefix}-${row}-${index}`
+        const x = margin + (segment.colStart - 1) * cellWidth + 2
+        const width = segment.span * cellWidth - 4
+        const segmentY =
+          y + dayLabelHeight + segment.lane * (laneHeight + laneGap)
+        const path = pillPath(
+          x,
+          segmentY,
+          width,
+          laneHeight,
+          segment.isStart,
+          segment.isEnd,
+        )
+        const thumbnail =
+          segment.isStart && segment.thumbnailUrl
+            ? images.get(segment.thumbnailUrl)
+            : undefined
+        const showThumbnail = Boolean(thumbnail) && width > laneHeight * 3
+        const textX = x + (showThumbnail ? laneHeight + 6 : 8)
+        parts.push(
+          `<clipPath id="${id}"><path d="${path}"/></clipPath>`,
+          `<path d="${path}" fill="${segment.color}"/>`,
+        )
+        if (showThumbnail && thumbnail) {
+          const size = laneHeight - 4
+          parts.push(
+            `<clipPath id="${id}-thumb"><circle cx="${x + 2 + size / 2}" cy="${segmentY + 2 + size / 2}" r="${size / 2}"/></clipPath>`,
+            `<image href="${escapeXml(thumbnail)}" x="${x + 2}" y="${segmentY + 2}" width="${size}" height="${size}" preserveAspectRatio="xMidYMid slice" clip-path="url(#${id}-thumb)"/>`,
+          )
+        }
+        parts.push(
+          `<text x="${textX}" y="${segmentY + laneHeight / 2 + 4}" font-size="11" font-weight="600" fill="${segment.textColor}" clip-path="url(#${id})">${escapeXml(segment.label)}</text>`,
+        )
+      })
+
+    y += height
+  }
+
+  return { markup: parts.join(""), bottom: y }
+}
+
+function renderPosterSvg(
+  poster: Poster,
+  slices: PosterSlice[],
+  images: Map<string, string>,
+) {
+  const width = posterWidth(poster)
+  const parts = [
+    `<text x="${margin}" y="${margin + 30}" font-size="30" font-weight="600" fill="#0f172a">${escapeXml(poster.title)}</text>`,
+    `<text x="${margin}" y="${margin + 54}" font-size="12" fill="#64748b">${escapeXml(poster.subtitle)}</text>`,
+  ]
+  let y = margin + titleHeight
+  slices.forEach((slice, index) => {
+    const { markup, bottom } = renderSlice(
+      poster,
+      slice,
+      y,
+      images,
+      `s${index}`,
+    )
+    parts.push(markup)
+    y = bottom + windowGap
+  })
+  const height = y - windowGap + margin
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(fontFamily)}">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    ...parts,
+    "</svg>",
+  ].join("")
+  return { svg, width, height }
+}
+
+function wholeSlices(poster: Poster): PosterSlice[] {
+  return poster.windows.map((window, windowIndex) => ({
+    windowIndex,
+    rowStart: 0,
+    rowEnd: window.rows,
+  }))
+}
+
+// Fills each page with as many rows as fit at the full page width. A window
+// that runs onto the next page repeats its title and column labels there.
+function paginate(poster: Poster, pageWidth: number, pageHeight: number) {
+  const scale = (pageWidth - pdfMargin * 2) / posterWidth(poster)
+  const available = (pageHeight - pdfMargin * 2) / scale - margin
+  const pages: PosterSlice[][] = []
+  let page: PosterSlice[] = []
+  let used = margin + titleHeight
+
+  poster.windows.forEach((window, windowIndex) => {
+    const lanes = laneCounts(window)
+    let slice: PosterSlice | null = null
+    for (let row = 0; row < window.rows; row += 1) {
+      const height = rowHeight(lanes[row])
+      const header = slice ? 0 : sliceHeaderHeight(poster)
+      if (used + header + height > available && page.length > 0) {
+        pages.push(page)
+        page = []
+        slice = null
+        used = margin + titleHeight
+      }
+      if (!slice) {
+        slice = { windowIndex, rowStart: row, rowEnd: row }
+        page.push(slice)
+        used += sliceHeaderHeight(poster)
+      }
+      slice.rowEnd = row + 1
+      used += height
+    }
+    used += windowGap
+  })
+  if (page.length > 0) {
+    pages.push(page)
+  }
+  return pages
+}
+
+function loadImage(url: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error("Could not render the poster"))
+    image.src = url
+  })
+}
+
+async function rasterize(
+  rendered: { svg: string; width: number; height: number },
+  scale: number,
+) {
+  const safeScale = Math.min(
+    scale,
+    maxCanvasEdge / Math.max(rendered.width, rendered.height),
+  )
+  const url = URL.createObjectURL(
+    new Blob([rendered.svg], { type: "image/svg+xml" }),
+  )
+  try {
+    const image = await loadImage(url)
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.round(rendered.width * safeScale)
+    canvas.height = Math.round(rendered.height * safeScale)
+    const context = canvas.getContext("2d")
+    if (!context) {
+      throw new Error("Canvas is not available")
+    }
+    context.fillStyle = "#ffffff"
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.drawImage(image, 0, 0, canvas.width, canvas.height)
+    return canvas
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+function canvasBlob(canvas: HTMLCanvasElement, type: string, quality?: number) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob)
+        } else {
+          reject(new Error("Could not encode the poster"))
+        }
+      },
+      type,
+      quality,
+    )
+  })
+}
+
+function readAsDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(new Error("Could not read image"))
+    reader.readAsDataURL(blob)
+  })
+}
+
+// Images drawn from an SVG only load when inlined, and inlining keeps the
+// SVG file self-contained. Thumbnails that fail to load are left out.
+async function embedImages(poster: Poster) {
+  const urls = new Set(
+    poster.windows.flatMap((window) =>
+      window.segments.flatMap((segment) =>
+        segment.isStart && segment.thumbnailUrl ? [segment.thumbnailUrl] : [],
+      ),
+    ),
+  )
+  const entries = await Promise.all(
+    Array.from(urls, async (url) => {
+      try {
+        const response = await fetch(url)
+        if (!response.ok) return null
+        return [url, await readAsDataUrl(await response.blob())] as const
+      } catch {
+        return null
+      }
+    }),
+  )
+  return new Map(entries.filter((entry) => entry !== null))
+}
+
+// PDF text strings in UTF-16BE, so titles keep their emoji and accents.
+function pdfText(value: string) {
+  const hex = Array.from(value, (char) => {
+    const code = char.codePointAt(0) ?? 0
+    if (code <= 0xffff) {
+      return code.toString(16).padStart(4, "0")
+    }
+    const offset = code - 0x10000
+    const high = 0xd800 + (offset >> 10)
+    const low = 0xdc00 + (offset & 0x3ff)
+    return `${high.toString(16)}${low.toString(16)}`
+  })
+  return `<FEFF${hex.join("")}>`
+}
+
+function pdfNumber(value: number) {
+  return Number(value.toFixed(2)).toString()
+}
+
+// A minimal PDF: one JPEG image drawn on each page.
+function buildPdf(title: string, pages: PdfPage[]) {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === "string" ? encoder.encode(data) : data
+    chunks.push(bytes)
+    length += bytes.length
+  }
+  const object = (id: number, body: string) => {
+    offsets[id] = length
+    write(`${id} 0 obj\n${body}\nendobj\n`)
+  }
+
+  const pageIds = pages.map((_, index) => 4 + index * 3)
+  write("%PDF-1.4\n%âãÏÓ\n")
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>")
+  object(
+    2,
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+  )
+  object(3, `<< /Title ${pdfText(title)} >>`)
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index]
+    const contentId = pageId + 1
+    const imageId = pageId + 2
+    object(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pdfNumber(page.width)} ${pdfNumber(page.height)}] /Resources << /XObject << /Poster ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`,
+    )
+    const content = `q ${pdfNumber(page.drawWidth)} 0 0 ${pdfNumber(page.drawHeight)} ${pdfNumber(page.x)} ${pdfNumber(page.y)} cm /Poster Do Q`
+    object(
+      contentId,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    )
+    offsets[imageId] = length
+    write(
+      `${imageId} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.image.length} >>\nstream\n`,
+    )
+    write(page.image)
+    write("\nendstream\nendobj\n")
+  })
+
+  const xrefOffset = length
+  const size = offsets.length
+  write(`xref\n0 ${size}\n0000000000 65535 f \n`)
+  for (let id = 1; id < size; id += 1) {
+    write(`${offsets[id].toString().padStart(10, "0")} 00000 n \n`)
+  }
+  write(
+    `trailer\n<< /Size ${size} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`,
+  )
+  return new Blob(chunks as BlobPart[], { type: "application/pdf" })
+}
+
+async function pdfPage(
+  rendered: { svg: string; width: number; height: number },
+  pageWidth: number,
+  pageHeight: number,
+  align: "center" | "top",
+): Promise<PdfPage> {
+  const scale = Math.min(
+    (pageWidth - pdfMargin * 2) / rendered.width,
+    (pageHeight - pdfMargin * 2) / rendered.height,
+  )
+  const canvas = await rasterize(rendered, (scale * pdfDpi) / 72)
+  const jpeg = await canvasBlob(canvas, "image/jpeg", 0.92)
+  const drawWidth = rendered.width * scale
+  const drawHeight = rendered.height * scale
+  return {
+    width: pageWidth,
+    height: pageHeight,
+    image: new Uint8Array(await jpeg.arrayBuffer()),
+    pixelWidth: canvas.width,
+    pixelHeight: canvas.height,
+    x: (pageWidth - drawWidth) / 2,
+    // PDF coordinates start at the bottom of the page.
+    y:
+      align === "center"
+        ? (pageHeight - drawHeight) / 2
+        : pageHeight - pdfMargin - drawHeight,
+    drawWidth,
+    drawHeight,
+  }
+}
+
+async function exportPdf(
+  poster: Poster,
+  options: PosterOptions,
+  images: Map<string, string>,
+) {
+  const paper = paperSizes[options.paper]
+  const portrait = { width: paper.width, height: paper.height }
+  const landscape = { width: paper.height, height: paper.width }
+
+  if (options.pdfLayout === "single") {
+    const rendered = renderPosterSvg(poster, wholeSlices(poster), images)
+    const sheet = rendered.width > rendered.height ? landscape : portrait
+    return buildPdf(poster.title, [
+      await pdfPage(rendered, sheet.width, sheet.height, "center"),
+    ])
+  }
+
+  // Use whichever orientation needs fewer sheets.
+  const portraitPages = paginate(poster, portrait.width, portrait.height)
+  const landscapePages = paginate(poster, landscape.width, landscape.height)
+  const [sheet, slicesByPage] =
+    landscapePages.length < portraitPages.length
+      ? [landscape, landscapePages]
+      : [portrait, portraitPages]
+  const pages: PdfPage[] = []
+  for (const [index, slices] of slicesByPage.entries()) {
+    const rendered = renderPosterSvg(
+      {
+        ...poster,
+        subtitle: `${poster.subtitle} · Page ${index + 1} of ${slicesByPage.length}`,
+      },
+      slices,
+      images,
+    )
+    // Pages are drawn one at a time to keep only one canvas in memory.
+    pages.push(await pdfPage(rendered, sheet.width, sheet.height, "top"))
+  }
+  return buildPdf(poster.title, pages)
+}
+
+export async function exportPoster(
+  poster: Poster,
+  options: PosterOptions,
+): Promise<Blob> {
+  const images = options.thumbnails
+    ? await embedImages(poster)
+    : new Map<string, string>()
+
+  if (options.format === "pdf") {
+    return exportPdf(poster, options, images)
+  }
+  const rendered = renderPosterSvg(poster, wholeSlices(poster), images)
+  if (options.format === "svg") {
+    return new Blob([rendered.svg], { type: "image/svg+xml" })
+  }
+  return canvasBlob(await rasterize(rendered, pngScale), "image/png")
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.append(link)
+  link.click()
+  link.remove()
+  window.setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,51 @@
+import type { Tone } from "@/types"
+
+export interface PaletteTone extends Tone {
+  text: string
+}
+
+export const builtInTones: Tone[] = [
+  { key: "sea", name: "Deep sea", color: "#1b6c7a" },
+  { key: "sunset", name: "Burnt sunset", color: "#e66a3b" },
+  { key: "orchid", name: "Night orchid", color: "#8a4b87" },
+  { key: "ink", name: "Midnight ink", color: "#1f2937" },
+]
+
+const lightText = "#ffffff"
+const darkText = "#0f172a"
+
+function channel(value: number) {
+  const srgb = value / 255
+  return srgb <= 0.03928 ? srgb / 12.92 : ((srgb + 0.055) / 1.055) ** 2.4
+}
+
+// WCAG relative luminance of a #rrggbb color.
+function luminance(hex: string) {
+  const value = Number.parseInt(hex.slice(1), 16)
+  return (
+    0.2126 * channel((value >> 16) & 255) +
+    0.7152 * channel((value >> 8) & 255) +
+    0.0722 * channel(value & 255)
+  )
+}
+
+export function contrastRatio(foreground: string, background: string) {
+  const [light, dark] = [luminance(foreground), luminance(background)].sort(
+    (a, b) => b - a,
+  )
+  return (light + 0.05) / (dark + 0.05)
+}
+
+// Picks white or near-black text, whichever reads better on the color.
+export function toneTextColor(color: string) {
+  return contrastRatio(lightText, color) >= contrastRatio(darkText, color)
+    ? lightText
+    : darkText
+}
+
+export function buildPalette(customTones: Tone[] = []): PaletteTone[] {
+  return [...builtInTones, ...customTones].map((tone) => ({
+    ...tone,
+    text: toneTextColor(tone.color),
+  }))
+}
@@ -0,0 +1,27 @@
+import { monthNames, toDate } from "@/lib/planner-layout"
+import type { CalendarEvent, VisionImage } from "@/types"
+
+export function formatEventRange(event: Pick<CalendarEvent, "start" | "end">) {
+  const start = toDate(event.start)
+  const end = toDate(event.end)
+  const startMonth = monthNames[start.getMonth()].slice(0, 3)
+  const endMonth = monthNames[end.getMonth()].slice(0, 3)
+  if (start.getMonth() === end.getMonth()) {
+    return `${startMonth} ${start.getDate()}–${end.getDate()}`
+  }
+  return `${startMonth} ${start.getDate()}–${endMonth} ${end.getDate()}`
+}
+
+export function previewUrl(image: VisionImage) {
+  return image.thumbnailUrl ?? image.url
+}
+
+export function matchesSearch(
+  event: Pick<CalendarEvent, "label" | "description">,
+  query: string,
+) {
+  const needle = query.toLocaleLowerCase()
+  return [event.label, event.description ?? ""].some((text) =>
+    text.toLocaleLowerCase().includes(needle),
+  )
+}
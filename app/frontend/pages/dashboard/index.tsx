@@ -1,21 +1,236 @@
-import { Head, router } from "@inertiajs/react"
+import { Head, router, usePage } from "@inertiajs/react"
+import { CloudOffIcon } from "lucide-react"
 
 import YearlyPlanner from "@/components/yearly-planner"
-import { eventsPath } from "@/routes"
-import type { CalendarEvent } from "@/types"
-
-type EventPayload = Pick<
+import { useOfflineEvents } from "@/hooks/use-offline-events"
+import { uploadImage } from "@/lib/direct-upload"
+import { searchEvents } from "@/lib/event-search"
+import type { NewOperation } from "@/lib/offline-store"
+import {
+  dashboardPath,
+  eventArchivePath,
+  eventPath,
+  eventRestorePath,
+  eventsCalendarPath,
+  eventsImportPath,
+  eventsPath,
+} from "@/routes"
+import type {
   CalendarEvent,
-  "label" | "start" | "end" | "tone" | "images" | "description"
->
+  DateRange,
+  EventErrors,
+  EventPayload,
+  EventSubmitOptions,
+  Tone,
+} from "@/types"
 
-type DashboardProps = {
+interface DashboardProps {
   events: CalendarEvent[]
+  year: number
+  // Null when every vision is loaded.
+  range: DateRange | null
+  tones: Tone[]
+}
+
+const visitOptions = (
+  { onSuccess, onError }: EventSubmitOptions,
+  // Picks the saved vision out of the reloaded events for the planner.
+  findSaved?: (events: CalendarEvent[]) => CalendarEvent | undefined,
+) => {
+  let isSettled = false
+  return {
+    preserveScroll: true,
+    onSuccess: (page: { props: object }) => {
+      isSettled = true
+      onSuccess(
+        findSaved?.((page.props as { events?: CalendarEvent[] }).events ?? []),
+      )
+    },
+    onError: (errors: EventErrors) => {
+      isSettled = true
+      onError(errors)
+    },
+    // Server errors, dropped connections and cancelled visits call neither
+    // of the above, but the planner still has to hear that nothing saved.
+    onFinish: () => {
+      if (!isSettled) {
+        onError({ base: ["This change could not be saved. Please try again."] })
+      }
+    },
+  }
 }
 
-export default function Dashboard({ events }: DashboardProps) {
-  const handleCreateEvent = (payload: EventPayload) => {
-    router.post(eventsPath(), payload, { preserveScroll: true })
+// The redirect after a create doesn't carry the new id, so the saved vision
+// is the newest one with the submitted label and dates.
+const findCreated =
+  (payload: EventPayload) =>
+  (events: CalendarEvent[]): CalendarEvent | undefined =>
+    events
+      .filter(
+        (event) =>
+          event.label === payload.label &&
+          event.start === payload.start &&
+          event.end === payload.end,
+      )
+      .sort((a, b) => Number(b.id) - Number(a.id))[0]
+
+export default function Dashboard({
+  events,
+  year,
+  range,
+  tones,
+}: DashboardProps) {
+  const page = usePage()
+  const { auth } = page.props
+  const offline = useOfflineEvents(auth.user.id, events, range)
+
+  // Without a connection, changes are queued and shown right away; they are
+  // sent once the planner is back online.
+  const queueChange = (
+    operation: NewOperation,
+    { onSuccess, onError }: EventSubmitOptions,
+  ) => {
+    offline.queue(operation).then(
+      () => onSuccess(),
+      () =>
+        onError({ base: ["This change could not be saved on this device"] }),
+    )
+  }
+
+  const revisionOf = (eventId: CalendarEvent["id"]) =>
+    offline.events.find((event) => event.id === eventId)?.updatedAt
+
+  // Events are loaded per planner window; only fetch when the window moves
+  // outside the range already on the page. Leaving the all-years board
+  // narrows the load again. The URL follows the window either way, so a
+  // reload or a shared link opens the same view.
+  const handleWindowChange = (activeYear: number, window: DateRange | null) => {
+    const isCalendarYear =
+      window?.start === `${activeYear}-01-01` &&
+      window.end === `${activeYear}-12-31`
+    const query = !window
+      ? { year: activeYear, all: true }
+      : isCalendarYear
+        ? { year: activeYear }
+        : { year: activeYear, from: window.start, to: window.end }
+    // Offline, every vision stored on this device is already on the page.
+    const isLoaded =
+      !offline.isOnline ||
+      (window
+        ? range && window.start >= range.start && window.end <= range.end
+        : !range)
+    if (isLoaded) {
+      const url = dashboardPath(query)
+      if (url !== page.url) {
+        router.replace({ url, preserveState: true, preserveScroll: true })
+      }
+      return
+    }
+    router.get(dashboardPath(), query, {
+      only: ["events", "year", "range"],
+      preserveState: true,
+      preserveScroll: true,
+    })
+  }
+
+  const handleCreateEvent = (
+    payload: EventPayload,
+    options: EventSubmitOptions,
+  ) => {
+    if (!offline.isOnline) {
+      queueChange(
+        {
+          kind: "create",
+          eventId: `offline-${crypto.randomUUID()}`,
+          event: payload,
+        },
+        options,
+      )
+      return
+    }
+    router.post(
+      eventsPath(),
+      payload,
+      visitOptions(options, findCreated(payload)),
+    )
+  }
+
+  const handleUpdateEvent = (
+    eventId: CalendarEvent["id"],
+    payload: EventPayload,
+    options: EventSubmitOptions,
+  ) => {
+    if (!offline.isOnline) {
+      queueChange(
+        {
+          kind: "update",
+          eventId,
+          baseUpdatedAt: revisionOf(eventId),
+          event: payload,
+        },
+        options,
+      )
+      return
+    }
+    router.patch(
+      eventPath(eventId),
+      payload,
+      visitOptions(options, (events) =>
+        events.find((event) => event.id === eventId),
+      ),
+    )
+  }
+
+  const handleDeleteEvent = (
+    eventId: CalendarEvent["id"],
+    options: EventSubmitOptions,
+  ) => {
+    if (!offline.isOnline) {
+      queueChange(
+        { kind: "delete", eventId, baseUpdatedAt: revisionOf(eventId) },
+        options,
+      )
+      return
+    }
+    router.delete(eventPath(eventId), visitOptions(options))
+  }
+
+  const handleImportEvents = (
+    payloads: EventPayload[],
+    options: EventSubmitOptions,
+  ) => {
+    if (!offline.isOnline) {
+      options.onError({ base: ["Importing needs a connection"] })
+      return
+    }
+    router.post(eventsImportPath(), { events: payloads }, visitOptions(options))
+  }
+
+  const handleRestoreEvent = (
+    eventId: CalendarEvent["id"],
+    options: EventSubmitOptions,
+  ) => {
+    if (!offline.isOnline) {
+      options.onError({ base: ["Restoring needs a connection"] })
+      return
+    }
+    router.post(eventRestorePath(eventId), {}, visitOptions(options))
+  }
+
+  const handleArchiveEvent = (
+    eventId: CalendarEvent["id"],
+    archived: boolean,
+    options: EventSubmitOptions,
+  ) => {
+    if (!offline.isOnline) {
+      options.onError({ base: ["Archiving needs a connection"] })
+      return
+    }
+    if (archived) {
+      router.post(eventArchivePath(eventId), {}, visitOptions(options))
+    } else {
+      router.delete(eventArchivePath(eventId), visitOptions(options))
+    }
   }
 
   return (
@@ -29,8 +244,36 @@ export default function Dashboard({ events }: DashboardProps) {
       </Head>
 
       <div className="mx-auto flex w-full flex-col">
-        <YearlyPlanner events={events} onCreateEvent={handleCreateEvent} />
+        <YearlyPlanner
+          year={year}
+          events={offline.events}
+          tones={tones}
+          onCreateEvent={handleCreateEvent}
+          onUpdateEvent={handleUpdateEvent}
+          onDeleteEvent={handleDeleteEvent}
+          onArchiveEvent={handleArchiveEvent}
+          onRestoreEvent={handleRestoreEvent}
+          onUploadImage={uploadImage}
+          onWindowChange={handleWindowChange}
+          onSearchEvents={searchEvents}
+          onImportEvents={handleImportEvents}
+          calendarExportUrl={eventsCalendarPath()}
+        />
       </div>
+
+      {!offline.isOnline || offline.pendingCount > 0 ? (
+        <div
+          role="status"
+          className="fixed bottom-4 left-4 z-40 flex items-center gap-2 rounded-full border bg-white px-3 py-1.5 text-xs text-slate-600 shadow-sm"
+        >
+          <CloudOffIcon className="size-3.5" aria-hidden="true" />
+          {offline.isOnline
+            ? `Syncing ${offline.pendingCount} offline ${offline.pendingCount === 1 ? "change" : "changes"}`
+            : offline.pendingCount > 0
+              ? `Offline · ${offline.pendingCount} ${offline.pendingCount === 1 ? "change" : "changes"} will sync when you reconnect`
+              : "Offline · changes will sync when you reconnect"}
+        </div>
+      ) : null}
     </div>
   )
 }
@@ -0,0 +1,177 @@
+import { Head, router, usePage } from "@inertiajs/react"
+import { DownloadIcon } from "lucide-react"
+import { type ChangeEvent, useState } from "react"
+
+import HeadingSmall from "@/components/heading-small"
+import InputError from "@/components/input-error"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Spinner } from "@/components/ui/spinner"
+import AppLayout from "@/layouts/app-layout"
+import SettingsLayout from "@/layouts/settings/layout"
+import { settingsBackupPath, settingsRestorePath } from "@/routes"
+import type { BreadcrumbItem, DateRange } from "@/types"
+
+const breadcrumbs: BreadcrumbItem[] = [
+  {
+    title: "Backup",
+    href: settingsBackupPath(),
+  },
+]
+
+interface RestoreSummary {
+  tones_created: number
+  events_created: number
+  events_conflicting: number
+  events_invalid: number
+  images_skipped: number
+  conflicts: (DateRange & { label: string })[]
+}
+
+interface BackupProps {
+  // Only present after a dry run.
+  preview?: RestoreSummary
+}
+
+const pluralize = (count: number, noun: string) =>
+  `${count} ${count === 1 ? noun : `${noun}s`}`
+
+export default function Backup({ preview }: BackupProps) {
+  const { errors } = usePage().props
+  const [file, setFile] = useState<File | null>(null)
+  const [processing, setProcessing] = useState(false)
+
+  const submit = (archive: File, dryRun: boolean) => {
+    router.post(
+      settingsRestorePath(),
+      { archive, dry_run: dryRun },
+      {
+        forceFormData: true,
+        preserveScroll: true,
+        preserveState: dryRun,
+        onStart: () => setProcessing(true),
+        onFinish: () => setProcessing(false),
+      },
+    )
+  }
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0] ?? null
+    setFile(chosen)
+    if (chosen) submit(chosen, true)
+  }
+
+  return (
+    <AppLayout breadcrumbs={breadcrumbs}>
+      <Head title={breadcrumbs[breadcrumbs.length - 1].title} />
+
+      <SettingsLayout>
+        <div className="space-y-6">
+          <HeadingSmall
+            title="Download a backup"
+            description="A JSON file with every vision, its dates, tone, notes and images, plus your palette"
+          />
+
+          <div className="flex flex-wrap gap-2">
+            <Button asChild>
+              <a
+                href={settingsBackupPath({ format: "json", images: "embed" })}
+                download
+              >
+                <DownloadIcon />
+                With images
+              </a>
+            </Button>
+            <Button variant="secondary" asChild>
+              <a href={settingsBackupPath({ format: "json" })} download>
+                <DownloadIcon />
+                With image links
+              </a>
+            </Button>
+          </div>
+          <p className="text-muted-foreground text-sm">
+            Embedded images make a self-contained file. Image links keep it
+            small but only restore into this app while the images still exist.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <HeadingSmall
+            title="Restore from a backup"
+            description="Check what a backup would add before restoring it"
+          />
+
+          <div className="grid gap-2">
+            <Label htmlFor="archive">Backup file</Label>
+            <Input
+              id="archive"
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              disabled={processing}
+            />
+            <InputError messages={errors.archive} />
+          </div>
+
+          {file && preview ? (
+            <div className="space-y-4 rounded-lg border p-4">
+              <div className="space-y-1">
+                <p className="font-medium">Dry run of {file.name}</p>
+                <ul className="text-muted-foreground text-sm">
+                  <li>
+                    {pluralize(preview.events_created, "vision")} would be
+                    created
+                  </li>
+                  <li>
+                    {pluralize(preview.events_conflicting, "vision")} already in
+                    your planner would be skipped
+                  </li>
+                  {preview.events_invalid > 0 ? (
+                    <li>
+                      {pluralize(preview.events_invalid, "vision")} with missing
+                      or invalid details would be skipped
+                    </li>
+                  ) : null}
+                  {preview.images_skipped > 0 ? (
+                    <li>
+                      {pluralize(preview.images_skipped, "image")} would be left
+                      out as missing, too large or not an image
+                    </li>
+                  ) : null}
+                  {preview.tones_created > 0 ? (
+                    <li>
+                      {pluralize(preview.tones_created, "color")} would be added
+                      to your palette
+                    </li>
+                  ) : null}
+                </ul>
+              </div>
+
+              {preview.conflicts.length > 0 ? (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Conflicts</p>
+                  <ul className="text-muted-foreground space-y-0.5 text-sm">
+                    {preview.conflicts.map((conflict) => (
+                      <li key={`${conflict.label}-${conflict.start}`}>
+                        {conflict.label} · {conflict.start} to {conflict.end}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
+              <Button
+                disabled={processing || preview.events_created === 0}
+                onClick={() => submit(file, false)}
+              >
+                {processing && <Spinner />}
+                Restore {pluralize(preview.events_created, "vision")}
+              </Button>
+            </div>
+          ) : null}
+        </div>
+      </SettingsLayout>
+    </AppLayout>
+  )
+}
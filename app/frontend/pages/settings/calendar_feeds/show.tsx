@@ -0,0 +1,95 @@
+import { Head, Link } from "@inertiajs/react"
+import { CheckIcon, CopyIcon } from "lucide-react"
+
+import HeadingSmall from "@/components/heading-small"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useClipboard } from "@/hooks/use-clipboard"
+import AppLayout from "@/layouts/app-layout"
+import SettingsLayout from "@/layouts/settings/layout"
+import { settingsCalendarFeedPath } from "@/routes"
+import type { BreadcrumbItem } from "@/types"
+
+const breadcrumbs: BreadcrumbItem[] = [
+  {
+    title: "Calendar feed",
+    href: settingsCalendarFeedPath(),
+  },
+]
+
+interface CalendarFeedProps {
+  feed_url: string | null
+}
+
+export default function CalendarFeed({ feed_url }: CalendarFeedProps) {
+  const [copiedText, copy] = useClipboard()
+
+  return (
+    <AppLayout breadcrumbs={breadcrumbs}>
+      <Head title={breadcrumbs[breadcrumbs.length - 1].title} />
+
+      <SettingsLayout>
+        <div className="space-y-6">
+          <HeadingSmall
+            title="Calendar feed"
+            description="Subscribe to your visions from Google Calendar, Apple Calendar or Outlook"
+          />
+
+          {feed_url ? (
+            <div className="grid gap-2">
+              <Label htmlFor="feed_url">Private feed URL</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="feed_url"
+                  value={feed_url}
+                  readOnly
+                  onFocus={(event) => event.target.select()}
+                />
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={() => void copy(feed_url)}
+                >
+                  {copiedText === feed_url ? <CheckIcon /> : <CopyIcon />}
+                  {copiedText === feed_url ? "Copied" : "Copy"}
+                </Button>
+              </div>
+              <p className="text-muted-foreground text-sm">
+                Anyone with this URL can see your visions. Calendar apps check
+                it for changes every few hours.
+              </p>
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              You don&apos;t have a feed URL yet.
+            </p>
+          )}
+
+          <div className="space-y-4 rounded-lg border p-4">
+            <div className="space-y-1">
+              <p className="font-medium">
+                {feed_url ? "Regenerate URL" : "Create a feed URL"}
+              </p>
+              <p className="text-muted-foreground text-sm">
+                {feed_url
+                  ? "The current URL stops working, so every subscribed calendar has to be set up again."
+                  : "Calendar apps can then subscribe to your visions."}
+              </p>
+            </div>
+            <Button variant={feed_url ? "destructive" : "default"} asChild>
+              <Link
+                method="patch"
+                href={settingsCalendarFeedPath()}
+                as="button"
+                preserveScroll
+              >
+                {feed_url ? "Regenerate URL" : "Create feed URL"}
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </SettingsLayout>
+    </AppLayout>
+  )
+}
@@ -0,0 +1,153 @@
+import { Form, Head, Link } from "@inertiajs/react"
+import { useState } from "react"
+
+import HeadingSmall from "@/components/heading-small"
+import InputError from "@/components/input-error"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import AppLayout from "@/layouts/app-layout"
+import SettingsLayout from "@/layouts/settings/layout"
+import { builtInTones, contrastRatio, toneTextColor } from "@/lib/tones"
+import { settingsTonePath, settingsTonesPath } from "@/routes"
+import type { BreadcrumbItem, Tone } from "@/types"
+
+const breadcrumbs: BreadcrumbItem[] = [
+  {
+    title: "Palette",
+    href: settingsTonesPath(),
+  },
+]
+
+// WCAG AA for normal-sized text.
+const minimumContrast = 4.5
+
+interface TonesProps {
+  tones: Tone[]
+}
+
+function ToneSwatch({ name, color }: Pick<Tone, "name" | "color">) {
+  const text = toneTextColor(color)
+  const ratio = contrastRatio(text, color)
+
+  return (
+    <div className="flex items-center gap-3">
+      <span
+        className="inline-flex h-8 min-w-28 items-center rounded-full border border-slate-900 px-4 text-[13px] font-semibold"
+        style={{ backgroundColor: color, color: text }}
+      >
+        {name || "Preview"}
+      </span>
+      <span
+        className={`text-xs ${
+          ratio < minimumContrast ? "text-red-600" : "text-muted-foreground"
+        }`}
+      >
+        {ratio.toFixed(1)}:1 contrast
+        {ratio < minimumContrast ? " · hard to read" : ""}
+      </span>
+    </div>
+  )
+}
+
+function ToneForm({ tone }: { tone?: Tone }) {
+  const [name, setName] = useState(tone?.name ?? "")
+  const [color, setColor] = useState(tone?.color ?? "#2f855a")
+  const idPrefix = tone ? `tone-${tone.key}` : "tone-new"
+
+  return (
+    <Form
+      method={tone ? "patch" : "post"}
+      action={tone ? settingsTonePath(tone.key) : settingsTonesPath()}
+      options={{ preserveScroll: true }}
+      onSuccess={() => {
+        if (!tone) {
+          setName("")
+        }
+      }}
+      className="space-y-4 rounded-lg border p-4"
+    >
+      {({ errors, processing }) => (
+        <>
+          <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+            <div className="grid gap-2">
+              <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+              <Input
+                id={`${idPrefix}-name`}
+                name="name"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                required
+                maxLength={40}
+                placeholder="Forest walk"
+              />
+              <InputError messages={errors.name} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor={`${idPrefix}-color`}>Color</Label>
+              <Input
+                id={`${idPrefix}-color`}
+                name="color"
+                type="color"
+                value={color}
+                onChange={(event) => setColor(event.target.value)}
+                className="w-20 p-1"
+              />
+              <InputError messages={errors.color} />
+            </div>
+          </div>
+
+          <ToneSwatch name={name} color={color} />
+
+          <div className="flex items-center gap-2">
+            <Button disabled={processing}>{tone ? "Save" : "Add color"}</Button>
+            {tone ? (
+              <Button variant="ghost" asChild>
+                <Link
+                  method="delete"
+                  href={settingsTonePath(tone.key)}
+                  as="button"
+                  preserveScroll
+                >
+                  Remove
+                </Link>
+              </Button>
+            ) : null}
+          </div>
+        </>
+      )}
+    </Form>
+  )
+}
+
+export default function Tones({ tones }: TonesProps) {
+  return (
+    <AppLayout breadcrumbs={breadcrumbs}>
+      <Head title={breadcrumbs[breadcrumbs.length - 1].title} />
+
+      <SettingsLayout>
+        <div className="space-y-6">
+          <HeadingSmall
+            title="Palette"
+            description="Name your own colors for visions on the planner"
+          />
+
+          <div className="space-y-3">
+            {builtInTones.map((tone) => (
+              <ToneSwatch key={tone.key} name={tone.name} color={tone.color} />
+            ))}
+          </div>
+
+          {tones.map((tone) => (
+            <ToneForm
+              key={`${tone.key}-${tone.color}-${tone.name}`}
+              tone={tone}
+            />
+          ))}
+
+          <ToneForm />
+        </div>
+      </SettingsLayout>
+    </AppLayout>
+  )
+}
@@ -107,6 +107,62 @@ export const editIdentityPasswordResetPath: ((
   options?: {format?: OptionalRouteParameter} & RouteOptions
 ) => string) & RouteHelperExtras;
 
+/**
+ * Generates rails route to
+ * /events/:event_id/archive(.:format)
+ * @param {any} eventId
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventArchivePath: ((
+  eventId: RequiredRouteParameter,
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
+/**
+ * Generates rails route to
+ * /events/:id(.:format)
+ * @param {any} id
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventPath: ((
+  id: RequiredRouteParameter,
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
+/**
+ * Generates rails route to
+ * /events/:event_id/restore(.:format)
+ * @param {any} eventId
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventRestorePath: ((
+  eventId: RequiredRouteParameter,
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
+/**
+ * Generates rails route to
+ * /events/calendar(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventsCalendarPath: ((
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
+/**
+ * Generates rails route to
+ * /events/import(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventsImportPath: ((
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
 /**
  * Generates rails route to
  * /events(.:format)
@@ -117,6 +173,38 @@ export const eventsPath: ((
   options?: {format?: OptionalRouteParameter} & RouteOptions
 ) => string) & RouteHelperExtras;
 
+/**
+ * Generates rails route to
+ * /events/search(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventsSearchPath: ((
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
+/**
+ * Generates rails route to
+ * /events/sync(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventsSyncPath: ((
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
+/**
+ * Generates rails route to
+ * /feeds/:token(.:format)
+ * @param {any} token
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const feedPath: ((
+  token: RequiredRouteParameter,
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
 /**
  * Generates rails route to
  * /google_sign_in(.:format)
@@ -177,6 +265,26 @@ export const newRailsConductorInboundEmailSourcePath: ((
   options?: {format?: OptionalRouteParameter} & RouteOptions
 ) => string) & RouteHelperExtras;
 
+/**
+ * Generates rails route to
+ * /manifest(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const pwaManifestPath: ((
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
+/**
+ * Generates rails route to
+ * /service-worker(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const pwaServiceWorkerPath: ((
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
 /**
  * Generates rails route to
  * /rails/active_storage/representations/redirect/:signed_blob_id/:variation_key/*filename(.:format)
@@ -469,6 +577,26 @@ export const settingsAppearancePath: ((
   options?: {format?: OptionalRouteParameter} & RouteOptions
 ) => string) & RouteHelperExtras;
 
+/**
+ * Generates rails route to
+ * /settings/backup(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const settingsBackupPath: ((
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
+/**
+ * Generates rails route to
+ * /settings/calendar_feed(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const settingsCalendarFeedPath: ((
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
 /**
  * Generates rails route to
  * /settings/email(.:format)
@@ -499,6 +627,16 @@ export const settingsProfilePath: ((
   options?: {format?: OptionalRouteParameter} & RouteOptions
 ) => string) & RouteHelperExtras;
 
+/**
+ * Generates rails route to
+ * /settings/restore(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const settingsRestorePath: ((
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
 /**
  * Generates rails route to
  * /settings/sessions(.:format)
@@ -509,6 +647,28 @@ export const settingsSessionsPath: ((
   options?: {format?: OptionalRouteParameter} & RouteOptions
 ) => string) & RouteHelperExtras;
 
+/**
+ * Generates rails route to
+ * /settings/tones/:id(.:format)
+ * @param {any} id
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const settingsTonePath: ((
+  id: RequiredRouteParameter,
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
+/**
+ * Generates rails route to
+ * /settings/tones(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const settingsTonesPath: ((
+  options?: {format?: OptionalRouteParameter} & RouteOptions
+) => string) & RouteHelperExtras;
+
 /**
  * Generates rails route to
  * /sign_in(.:format)
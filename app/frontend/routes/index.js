@@ -559,6 +559,49 @@ export const dashboardPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,
  */
 export const editIdentityPasswordResetPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"identity"],[2,[7,"/"],[2,[6,"password_reset"],[2,[7,"/"],[2,[6,"edit"],[1,[2,[8,"."],[3,"format"]]]]]]]]]);
 
+/**
+ * Generates rails route to
+ * /events/:event_id/archive(.:format)
+ * @param {any} eventId
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventArchivePath = /*#__PURE__*/ __jsr.r({"event_id":{"r":true},"format":{}}, [2,[7,"/"],[2,[6,"events"],[2,[7,"/"],[2,[3,"event_id"],[2,[7,"/"],[2,[6,"archive"],[1,[2,[8,"."],[3,"format"]]]]]]]]]);
+
+/**
+ * Generates rails route to
+ * /events/:id(.:format)
+ * @param {any} id
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventPath = /*#__PURE__*/ __jsr.r({"id":{"r":true},"format":{}}, [2,[7,"/"],[2,[6,"events"],[2,[7,"/"],[2,[3,"id"],[1,[2,[8,"."],[3,"format"]]]]]]]);
+
+/**
+ * Generates rails route to
+ * /events/:event_id/restore(.:format)
+ * @param {any} eventId
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventRestorePath = /*#__PURE__*/ __jsr.r({"event_id":{"r":true},"format":{}}, [2,[7,"/"],[2,[6,"events"],[2,[7,"/"],[2,[3,"event_id"],[2,[7,"/"],[2,[6,"restore"],[1,[2,[8,"."],[3,"format"]]]]]]]]]);
+
+/**
+ * Generates rails route to
+ * /events/calendar(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventsCalendarPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"events"],[2,[7,"/"],[2,[6,"calendar"],[1,[2,[8,"."],[3,"format"]]]]]]]);
+
+/**
+ * Generates rails route to
+ * /events/import(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventsImportPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"events"],[2,[7,"/"],[2,[6,"import"],[1,[2,[8,"."],[3,"format"]]]]]]]);
+
 /**
  * Generates rails route to
  * /events(.:format)
@@ -567,6 +610,31 @@ export const editIdentityPasswordResetPath = /*#__PURE__*/ __jsr.r({"format":{}}
  */
 export const eventsPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"events"],[1,[2,[8,"."],[3,"format"]]]]]);
 
+/**
+ * Generates rails route to
+ * /events/search(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventsSearchPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"events"],[2,[7,"/"],[2,[6,"search"],[1,[2,[8,"."],[3,"format"]]]]]]]);
+
+/**
+ * Generates rails route to
+ * /events/sync(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const eventsSyncPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"events"],[2,[7,"/"],[2,[6,"sync"],[1,[2,[8,"."],[3,"format"]]]]]]]);
+
+/**
+ * Generates rails route to
+ * /feeds/:token(.:format)
+ * @param {any} token
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const feedPath = /*#__PURE__*/ __jsr.r({"token":{"r":true},"format":{}}, [2,[7,"/"],[2,[6,"feeds"],[2,[7,"/"],[2,[3,"token"],[1,[2,[8,"."],[3,"format"]]]]]]]);
+
 /**
  * Generates rails route to
  * /google_sign_in(.:format)
@@ -615,6 +683,22 @@ export const newRailsConductorInboundEmailPath = /*#__PURE__*/ __jsr.r({"format"
  */
 export const newRailsConductorInboundEmailSourcePath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"rails"],[2,[7,"/"],[2,[6,"conductor"],[2,[7,"/"],[2,[6,"action_mailbox"],[2,[7,"/"],[2,[6,"inbound_emails"],[2,[7,"/"],[2,[6,"sources"],[2,[7,"/"],[2,[6,"new"],[1,[2,[8,"."],[3,"format"]]]]]]]]]]]]]]]);
 
+/**
+ * Generates rails route to
+ * /manifest(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const pwaManifestPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"manifest"],[1,[2,[8,"."],[3,"format"]]]]]);
+
+/**
+ * Generates rails route to
+ * /service-worker(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const pwaServiceWorkerPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"service-worker"],[1,[2,[8,"."],[3,"format"]]]]]);
+
 /**
  * Generates rails route to
  * /rails/active_storage/representations/redirect/:signed_blob_id/:variation_key/*filename(.:format)
@@ -839,6 +923,22 @@ export const sessionPath = /*#__PURE__*/ __jsr.r({"id":{"r":true},"format":{}},
  */
 export const settingsAppearancePath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"settings"],[2,[7,"/"],[2,[6,"appearance"],[1,[2,[8,"."],[3,"format"]]]]]]]);
 
+/**
+ * Generates rails route to
+ * /settings/backup(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const settingsBackupPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"settings"],[2,[7,"/"],[2,[6,"backup"],[1,[2,[8,"."],[3,"format"]]]]]]]);
+
+/**
+ * Generates rails route to
+ * /settings/calendar_feed(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const settingsCalendarFeedPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"settings"],[2,[7,"/"],[2,[6,"calendar_feed"],[1,[2,[8,"."],[3,"format"]]]]]]]);
+
 /**
  * Generates rails route to
  * /settings/email(.:format)
@@ -863,6 +963,14 @@ export const settingsPasswordPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"
  */
 export const settingsProfilePath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"settings"],[2,[7,"/"],[2,[6,"profile"],[1,[2,[8,"."],[3,"format"]]]]]]]);
 
+/**
+ * Generates rails route to
+ * /settings/restore(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const settingsRestorePath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"settings"],[2,[7,"/"],[2,[6,"restore"],[1,[2,[8,"."],[3,"format"]]]]]]]);
+
 /**
  * Generates rails route to
  * /settings/sessions(.:format)
@@ -871,6 +979,23 @@ export const settingsProfilePath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/
  */
 export const settingsSessionsPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"settings"],[2,[7,"/"],[2,[6,"sessions"],[1,[2,[8,"."],[3,"format"]]]]]]]);
 
+/**
+ * Generates rails route to
+ * /settings/tones/:id(.:format)
+ * @param {any} id
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const settingsTonePath = /*#__PURE__*/ __jsr.r({"id":{"r":true},"format":{}}, [2,[7,"/"],[2,[6,"settings"],[2,[7,"/"],[2,[6,"tones"],[2,[7,"/"],[2,[3,"id"],[1,[2,[8,"."],[3,"format"]]]]]]]]]);
+
+/**
+ * Generates rails route to
+ * /settings/tones(.:format)
+ * @param {object | undefined} options
+ * @returns {string} route path
+ */
+export const settingsTonesPath = /*#__PURE__*/ __jsr.r({"format":{}}, [2,[7,"/"],[2,[6,"settings"],[2,[7,"/"],[2,[6,"tones"],[1,[2,[8,"."],[3,"format"]]]]]]]);
+
 /**
  * Generates rails route to
  * /sign_in(.:format)
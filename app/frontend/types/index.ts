@@ -44,13 +44,62 @@ export interface Session {
   created_at: string
 }
 
+export interface VisionImage {
+  id: string
+  url: string
+  thumbnailId?: string
+  thumbnailUrl?: string
+}
+
+export interface Tone {
+  key: string
+  name: string
+  color: string
+}
+
+export interface Category {
+  key: string
+  name: string
+}
+
 export interface CalendarEvent {
   id: number | string
   label: string
   start: string
   end: string
-  tone: "sea" | "sunset" | "orchid" | "ink"
-  images: string[]
+  tone: Tone["key"]
+  category?: Category["key"] | null
+  images: VisionImage[]
   description?: string
+  archived?: boolean
   createdAt?: number
+  updatedAt?: number
+}
+
+// An event as the planner shows it. A pending one is shown before the
+// server confirms it and can't be edited until then.
+export interface VisionEvent extends CalendarEvent {
+  pending?: boolean
+}
+
+export type EventPayload = Pick<
+  CalendarEvent,
+  "label" | "start" | "end" | "tone" | "category" | "description"
+> & {
+  images: Pick<VisionImage, "id" | "thumbnailId">[]
+}
+
+export interface DateRange {
+  start: string
+  end: string
+}
+
+export type EventErrors = Partial<Record<string, string[]>>
+
+// Exactly one of the callbacks runs for every submit, whether or not the
+// request reached the server.
+export interface EventSubmitOptions {
+  // Receives the saved event when the server sends it back.
+  onSuccess: (event?: CalendarEvent) => void
+  onError: (errors: EventErrors) => void
 }
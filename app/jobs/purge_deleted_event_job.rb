@@ -0,0 +1,15 @@
+# frozen_string_literal: true
+
+# Destroys an event once it has stayed deleted for the whole restore window.
+# An event restored in the meantime, or deleted again later, is left for the
+# job that deletion scheduled.
+class PurgeDeletedEventJob < ApplicationJob
+  queue_as :default
+  discard_on ActiveJob::DeserializationError
+
+  def perform(event)
+    return unless event.deleted? && event.deleted_at <= Event::RESTORE_WINDOW.ago
+
+    event.destroy!
+  end
+end
@@ -0,0 +1,14 @@
+# frozen_string_literal: true
+
+# Purges images that were direct-uploaded but never attached, such as the
+# uploads of a sheet that was closed without saving. Blobs get a day's grace,
+# so an upload waiting on its form being submitted is left alone.
+class PurgeUnattachedBlobsJob < ApplicationJob
+  GRACE_PERIOD = 1.day
+
+  queue_as :default
+
+  def perform
+    ActiveStorage::Blob.unattached.where(created_at: ...GRACE_PERIOD.ago).find_each(&:purge_later)
+  end
+end
@@ -0,0 +1,52 @@
+# frozen_string_literal: true
+
+# A versioned JSON archive of a user's planner: their custom tones and every
+# vision, with uploaded images embedded as base64 or referenced by URL.
+class Backup
+  FORMAT = "vision-glance-backup"
+  VERSION = 1
+
+  class InvalidArchive < StandardError; end
+
+  def initialize(user, base_url:)
+    @user = user
+    @base_url = base_url
+  end
+
+  def to_h(embed_images: false)
+    {
+      format: FORMAT,
+      version: VERSION,
+      exported_at: Time.current.iso8601,
+      tones: @user.tones.order(:created_at).map(&:palette_payload),
+      events: @user.events.with_attached_photos.order(:start_on, :end_on, :created_at).map { |event| event_entry(event, embed_images) },
+    }
+  end
+
+  def filename
+    "vision-glance-backup-#{Date.current.iso8601}.json"
+  end
+
+  private
+
+  def event_entry(event, embed_images)
+    {
+      label: event.label,
+      description: event.description,
+      start: event.start_on.iso8601,
+      end: event.end_on.iso8601,
+      tone: event.tone,
+      category: event.category,
+      archived: event.archived?,
+      images: (event.images || []).map { |image| {url: image} } + event.photos.map { |photo| photo_entry(photo, embed_images) },
+    }
+  end
+
+  def photo_entry(photo, embed_images)
+    if embed_images
+      {filename: photo.filename.to_s, content_type: photo.content_type, data: Base64.strict_encode64(photo.download)}
+    else
+      {signed_id: photo.signed_id, url: @base_url + Rails.application.routes.url_helpers.rails_blob_path(photo, only_path: true)}
+    end
+  end
+end
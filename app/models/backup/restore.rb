@@ -0,0 +1,131 @@
+# frozen_string_literal: true
+
+# Restores a Backup archive into an account. Visions that match an existing
+# one by label and dates are conflicts and are left alone. A dry run goes
+# through the same steps inside a rolled back transaction, checking images
+# without storing them, so its summary matches what a real restore would do.
+class Backup::Restore
+  MAX_EVENTS = 5000
+  MAX_CONFLICTS_LISTED = 20
+  MAX_IMAGE_SIZE = 10.megabytes
+  DATA_URL = /\Adata:(?<content_type>[\w.+-]+\/[\w.+-]+);base64,(?<data>.*)\z/m
+
+  def initialize(user, json)
+    @user = user
+    @archive = parse(json)
+  end
+
+  def run(dry_run:)
+    summary = {tones_created: 0, events_created: 0, events_invalid: 0, images_skipped: 0, conflicts: []}
+
+    ActiveRecord::Base.transaction do
+      restore_tones(summary)
+      restore_events(summary, attach_images: !dry_run)
+      raise ActiveRecord::Rollback if dry_run
+    end
+
+    summary.merge(events_conflicting: summary[:conflicts].size, conflicts: summary[:conflicts].first(MAX_CONFLICTS_LISTED))
+  end
+
+  private
+
+  def parse(json)
+    archive = JSON.parse(json)
+    raise Backup::InvalidArchive, "isn't a Vision Glance backup" unless archive.is_a?(Hash) && archive["format"] == Backup::FORMAT
+    raise Backup::InvalidArchive, "was made by a newer version of the app" if archive["version"].to_i > Backup::VERSION
+    raise Backup::InvalidArchive, "has more than #{MAX_EVENTS} visions" if Array(archive["events"]).size > MAX_EVENTS
+
+    archive
+  rescue JSON::ParserError
+    raise Backup::InvalidArchive, "isn't valid JSON"
+  end
+
+  def entries(key)
+    Array(@archive[key]).select { |entry| entry.is_a?(Hash) }
+  end
+
+  def restore_tones(summary)
+    entries("tones").each do |entry|
+      next if @user.tones.exists?(key: entry["key"])
+
+      tone = @user.tones.new(entry.slice("key", "name", "color"))
+      summary[:tones_created] += 1 if tone.save
+    end
+  end
+
+  def restore_events(summary, attach_images:)
+    entries("events").each do |entry|
+      event = @user.events.new(
+        label: entry["label"],
+        description: entry["description"].presence,
+        tone: entry["tone"],
+        category: entry["category"].presence,
+        start_on: parse_date(entry["start"]),
+        end_on: parse_date(entry["end"]),
+        archived_at: entry["archived"] ? Time.current : nil,
+      )
+
+      if conflict?(event)
+        summary[:conflicts] << {label: event.label, start: event.start_on.iso8601, end: event.end_on.iso8601}
+        next
+      end
+
+      images = restorable_images(entry["images"])
+      images.each { |image| event.photos.attach(image) } if attach_images
+      if event.save
+        summary[:events_created] += 1
+        summary[:images_skipped] += Array(entry["images"]).size - images.size
+      else
+        summary[:events_invalid] += 1
+      end
+    end
+  end
+
+  def conflict?(event)
+    event.start_on && event.end_on && @user.events.exists?(label: event.label, start_on: event.start_on, end_on: event.end_on)
+  end
+
+  # The images of an entry that would be attached, checked the same way for
+  # a dry run and a real restore. Embedded images and data URLs are stored
+  # again; references are only followed to blobs that still belong to this
+  # user. Anything past the image limit, too large or not an image is left
+  # out.
+  def restorable_images(images)
+    Array(images).select { |image| image.is_a?(Hash) }.filter_map { |image| restorable_image(image) }.first(Event::MAX_IMAGES)
+  end
+
+  def restorable_image(image)
+    if image["data"].present?
+      embedded_image(Base64.decode64(image["data"]), image["filename"].presence || "image", image["content_type"])
+    elsif (match = DATA_URL.match(image["url"].to_s))
+      embedded_image(Base64.decode64(match[:data]), "image", match[:content_type])
+    elsif (blob = owned_blob(image["signed_id"].to_s))
+      blob if blob.byte_size <= MAX_IMAGE_SIZE && blob.image?
+    end
+  end
+
+  def embedded_image(data, filename, declared_type)
+    return if data.bytesize > MAX_IMAGE_SIZE
+
+    content_type = Marcel::MimeType.for(StringIO.new(data), name: filename, declared_type: declared_type)
+    return unless content_type.start_with?("image/")
+
+    {io: StringIO.new(data), filename: filename, content_type: content_type, identify: false}
+  end
+
+  # Signed ids outlive the blobs they were made for and can come from anyone,
+  # so a blob is only reused when it is already attached to this user's
+  # visions.
+  def owned_blob(signed_id)
+    blob = ActiveStorage::Blob.find_signed(signed_id)
+    blob if blob && ActiveStorage::Attachment.exists?(blob: blob, record_type: "Event", record_id: Event.where(user: @user).select(:id))
+  end
+
+  def parse_date(value)
+    return unless value.is_a?(String)
+
+    Date.iso8601(value)
+  rescue ArgumentError
+    nil
+  end
+end
@@ -2,21 +2,142 @@
 
 class Event < ApplicationRecord
   TONES = %w[sea sunset orchid ink].freeze
+  CATEGORIES = %w[travel health career learning relationships creative].freeze
+  MAX_IMAGES = 6
+  # How long a deleted event can be restored before it and its images are
+  # purged.
+  RESTORE_WINDOW = 1.day
 
   belongs_to :user
 
+  has_many_attached :photos
+  has_many_attached :thumbnails
+
   validates :label, :start_on, :end_on, :tone, presence: true
-  validates :tone, inclusion: {in: TONES}
+  validates :description, length: {maximum: 2000}
+  validates :category, inclusion: {in: CATEGORIES}, allow_nil: true
+  validate :tone_in_palette
+  validate :images_within_limit
+  validate :photos_are_images
+
+  scope :overlapping, ->(range) { where(start_on: ..range.end, end_on: range.begin..) }
+  scope :active, -> { where(archived_at: nil) }
+  scope :kept, -> { where(deleted_at: nil) }
+  scope :deleted, -> { where.not(deleted_at: nil) }
+  # sanitize_sql_like escapes with a backslash, which SQLite only honors
+  # when the ESCAPE clause names it.
+  scope :matching, ->(query) { where("label LIKE :pattern ESCAPE '\\' OR description LIKE :pattern ESCAPE '\\'", pattern: "%#{sanitize_sql_like(query)}%") }
+
+  def archived?
+    archived_at.present?
+  end
+
+  def archive
+    update!(archived_at: Time.current)
+  end
+
+  def unarchive
+    update!(archived_at: nil)
+  end
+
+  def deleted?
+    deleted_at.present?
+  end
+
+  # Deleting keeps the event and its attachments for RESTORE_WINDOW, so the
+  # deletion can be undone with everything it had.
+  def soft_delete
+    update!(deleted_at: Time.current)
+    PurgeDeletedEventJob.set(wait: RESTORE_WINDOW).perform_later(self)
+  end
+
+  def restore
+    update!(deleted_at: nil)
+  end
+
+  # Images arrive as references: signed ids of direct-uploaded blobs (each
+  # with an optional thumbnail blob), or data URLs that were stored inline
+  # before uploads existed. Inline images are only kept when the event
+  # already had them.
+  def image_references=(references)
+    references = Array(references).map { |reference| reference.to_h.with_indifferent_access }.select { |reference| reference[:id].present? }
+    inline, uploaded = references.partition { |reference| reference[:id].start_with?("data:") }
+
+    self.images = inline.pluck(:id) & (images || [])
+    self.photos = uploaded.pluck(:id)
+    self.thumbnails = uploaded.pluck(:thumbnailId).compact_blank
+    self.image_thumbnails = thumbnail_pairs(uploaded)
+  end
 
   def calendar_payload
     {
       id: id,
       label: label,
+      description: description.to_s,
       start: start_on.iso8601,
       end: end_on.iso8601,
       tone: tone,
-      images: images || [],
+      category: category,
+      images: image_payloads,
+      archived: archived?,
       createdAt: created_at.to_i * 1000,
+      updatedAt: revision,
     }
   end
+
+  # The last change in milliseconds. Changes queued offline send it back so
+  # an edit made elsewhere in the meantime is not overwritten.
+  def revision
+    (updated_at.to_r * 1000).to_i
+  end
+
+  private
+
+  def image_payloads
+    inline = (images || []).map { |image| {id: image, url: image} }
+    uploaded = photos.map do |photo|
+      thumbnail = thumbnails.find { |candidate| candidate.blob_id == image_thumbnails[photo.blob_id.to_s] }
+
+      {
+        id: photo.signed_id,
+        url: blob_path(photo),
+        thumbnailId: thumbnail&.signed_id,
+        thumbnailUrl: thumbnail && blob_path(thumbnail),
+      }.compact
+    end
+
+    inline + uploaded
+  end
+
+  def blob_path(attachment)
+    Rails.application.routes.url_helpers.rails_blob_path(attachment, only_path: true)
+  end
+
+  def thumbnail_pairs(references)
+    references.each_with_object({}) do |reference, pairs|
+      next if reference[:thumbnailId].blank?
+
+      photo = ActiveStorage::Blob.find_signed(reference[:id])
+      thumbnail = ActiveStorage::Blob.find_signed(reference[:thumbnailId])
+      pairs[photo.id.to_s] = thumbnail.id if photo && thumbnail
+    end
+  end
+
+  def tone_in_palette
+    return if tone.blank? || TONES.include?(tone) || user&.tones&.exists?(key: tone)
+
+    errors.add(:tone, :inclusion, value: tone)
+  end
+
+  def images_within_limit
+    return if (images || []).size + photos.size <= MAX_IMAGES
+
+    errors.add(:images, "can't be more than #{MAX_IMAGES}")
+  end
+
+  def photos_are_images
+    return if [*photos, *thumbnails].all? { |photo| photo.content_type.to_s.start_with?("image/") }
+
+    errors.add(:images, "must be image files")
+  end
 end
@@ -0,0 +1,63 @@
+# frozen_string_literal: true
+
+# Renders events as an RFC 5545 calendar of all-day entries.
+class Event::Calendar
+  PRODUCT_ID = "-//Vision Glance//Planner//EN"
+  LINE_LIMIT = 75
+
+  def initialize(events, name:)
+    @events = events
+    @name = name
+  end
+
+  def to_ics
+    lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:#{PRODUCT_ID}",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:#{escape(@name)}",
+      *@events.flat_map { |event| event_lines(event) },
+      "END:VCALENDAR",
+    ]
+
+    lines.map { |line| fold(line) }.join("\r\n") + "\r\n"
+  end
+
+  private
+
+  def event_lines(event)
+    [
+      "BEGIN:VEVENT",
+      "UID:event-#{event.id}@vision-glance",
+      "DTSTAMP:#{event.updated_at.utc.strftime("%Y%m%dT%H%M%SZ")}",
+      "DTSTART;VALUE=DATE:#{event.start_on.strftime("%Y%m%d")}",
+      # All-day events end on the day after their last day.
+      "DTEND;VALUE=DATE:#{event.end_on.next_day.strftime("%Y%m%d")}",
+      "SUMMARY:#{escape(event.label)}",
+      ("DESCRIPTION:#{escape(event.description)}" if event.description.present?),
+      ("CATEGORIES:#{escape(event.category.humanize)}" if event.category.present?),
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ].compact
+  end
+
+  def escape(text)
+    text.to_s.gsub(/[\\;,]/) { |char| "\\#{char}" }.gsub(/\r?\n/, "\\n")
+  end
+
+  # Lines longer than 75 octets continue on the next line after a space,
+  # without splitting a multibyte character.
+  def fold(line)
+    return line if line.bytesize <= LINE_LIMIT
+
+    chunks = [+""]
+    line.each_char do |char|
+      limit = chunks.one? ? LINE_LIMIT : LINE_LIMIT - 1
+      chunks << +"" if chunks.last.bytesize + char.bytesize > limit
+      chunks.last << char
+    end
+    chunks.join("\r\n ")
+  end
+end
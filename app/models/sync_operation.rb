@@ -0,0 +1,13 @@
+# frozen_string_literal: true
+
+# An offline change the planner replayed, kept under the id the browser gave
+# it so that sending it again answers with the same result.
+class SyncOperation < ApplicationRecord
+  RETENTION = 30.days
+
+  belongs_to :user
+
+  validates :client_id, presence: true, uniqueness: {scope: :user_id}
+
+  scope :expired, -> { where(created_at: ...RETENTION.ago) }
+end
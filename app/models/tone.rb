@@ -0,0 +1,31 @@
+# frozen_string_literal: true
+
+# A named color a user adds to the built-in Event::TONES. Events refer to
+# tones by key, so renaming or recoloring a tone restyles its events.
+class Tone < ApplicationRecord
+  belongs_to :user
+
+  normalizes :color, with: -> { _1.strip.downcase }
+
+  validates :name, presence: true, length: {maximum: 40}
+  validates :color, format: {with: /\A#\h{6}\z/}
+  validates :key, presence: true, uniqueness: {scope: :user_id}, exclusion: {in: Event::TONES}
+
+  before_validation :assign_key, on: :create
+  after_destroy :reset_event_tones
+
+  def palette_payload
+    {key: key, name: name, color: color}
+  end
+
+  private
+
+  def assign_key
+    self.key ||= "custom-#{SecureRandom.alphanumeric(10).downcase}"
+  end
+
+  def reset_event_tones
+    # Deleted events too, so one restored later still has a tone.
+    Event.where(user: user, tone: key).update_all(tone: Event::TONES.first, updated_at: Time.current)
+  end
+end
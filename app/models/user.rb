@@ -2,6 +2,7 @@
 
 class User < ApplicationRecord
   has_secure_password
+  has_secure_token :feed_token
 
   generates_token_for :email_verification, expires_in: 2.days do
     email
@@ -13,7 +14,10 @@ class User < ApplicationRecord
 
 
   has_many :sessions, dependent: :destroy
-  has_many :events, dependent: :destroy
+  has_many :events, -> { kept }, dependent: :destroy
+  has_many :deleted_events, -> { deleted }, class_name: "Event", dependent: :destroy
+  has_many :tones, dependent: :delete_all
+  has_many :sync_operations, dependent: :delete_all
 
   validates :name, presence: true
   validates :email, presence: true, uniqueness: true, format: {with: URI::MailTo::EMAIL_REGEXP}
@@ -1,26 +1,103 @@
-// Add a service worker for processing Web Push notifications:
-//
-// self.addEventListener("push", async (event) => {
-//   const { title, options } = await event.data.json()
-//   event.waitUntil(self.registration.showNotification(title, options))
-// })
-//
-// self.addEventListener("notificationclick", function(event) {
-//   event.notification.close()
-//   event.waitUntil(
-//     clients.matchAll({ type: "window" }).then((clientList) => {
-//       for (let i = 0; i < clientList.length; i++) {
-//         let client = clientList[i]
-//         let clientPath = (new URL(client.url)).pathname
-//
-//         if (clientPath == event.notification.data.path && "focus" in client) {
-//           return client.focus()
-//         }
-//       }
-//
-//       if (clients.openWindow) {
-//         return clients.openWindow(event.notification.data.path)
-//       }
-//     })
-//   )
-// })
+// Keeps the planner usable without a connection. The dashboard page and the
+// assets it loads are cached as they are fetched; the visions themselves
+// live in IndexedDB (see app/frontend/lib/offline-store.ts), and changes
+// made offline are queued there until the page can replay them.
+
+const CACHE_NAME = "vision-glance-v1"
+const SHELL_URL = "/dashboard"
+// Each account's visions and queued changes live in their own database,
+// named by offline-store.ts.
+const DATABASE_PREFIX = "vision-glance-"
+
+self.addEventListener("install", () => {
+  self.skipWaiting()
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  // The cached dashboard and the offline databases hold the signed-in
+  // account's visions, so they go as soon as a session is logged out; the
+  // request itself is left alone.
+  if (request.method === "DELETE" && url.pathname.startsWith("/sessions/")) {
+    event.waitUntil(Promise.all([forgetShell(), forgetDatabases()]))
+    return
+  }
+  if (request.method !== "GET") return
+
+  // Inertia visits and JSON requests always go to the network; the page
+  // falls back to IndexedDB when they fail.
+  if (request.headers.has("X-Inertia") || request.headers.get("Accept") === "application/json") return
+
+  if (request.mode === "navigate" && url.pathname === SHELL_URL) {
+    event.respondWith(networkFirst(request))
+  } else if (url.pathname.startsWith("/vite/") || url.pathname.startsWith("/icon.")) {
+    event.respondWith(cacheFirst(request))
+  }
+})
+
+// Only a signed-in dashboard is cached, under a single key so any year or
+// window opens offline. A redirect means the session has ended, so the
+// copy cached for it is dropped rather than shown to whoever signs in next.
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME)
+  try {
+    const response = await fetch(request)
+    if (response.redirected) {
+      await cache.delete(SHELL_URL)
+    } else if (response.ok) {
+      await cache.put(SHELL_URL, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await cache.match(SHELL_URL)
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function forgetShell() {
+  const cache = await caches.open(CACHE_NAME)
+  await cache.delete(SHELL_URL)
+}
+
+// Browsers that can't list their databases keep them, though each is still
+// only opened for its own account. A database the open page is using is
+// deleted once the page lets go of it.
+async function forgetDatabases() {
+  if (!indexedDB.databases) return
+
+  const databases = await indexedDB.databases()
+  await Promise.all(
+    databases
+      .filter(({ name }) => name?.startsWith(DATABASE_PREFIX))
+      .map(({ name }) => new Promise((resolve) => {
+        const request = indexedDB.deleteDatabase(name)
+        request.onsuccess = request.onerror = request.onblocked = resolve
+      })),
+  )
+}
+
+// Built assets have content hashes in their names, so a cached copy never
+// goes stale.
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME)
+  const cached = await cache.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    await cache.put(request, response.clone())
+  }
+  return response
+}
@@ -9,7 +9,16 @@ Rails.application.routes.draw do
 
   resources :sessions, only: [:destroy]
   resource :users, only: [:destroy]
-  resources :events, only: [:create]
+  namespace :events do
+    resource :search, only: [:show]
+    resource :calendar, only: [:show]
+    resource :import, only: [:create]
+    resource :sync, only: [:create]
+  end
+  resources :events, only: [:create, :update, :destroy] do
+    resource :archive, only: [:create, :destroy], module: :events
+    resource :restore, only: :create, module: :events
+  end
 
   namespace :identity do
     resource :email_verification, only: [:show, :create]
@@ -17,12 +26,17 @@ Rails.application.routes.draw do
   end
 
   get :dashboard, to: "dashboard#index"
+  get "feeds/:token", to: "feeds#show", as: :feed
 
   namespace :settings do
     resource :profile, only: [:show, :update]
     resource :password, only: [:show, :update]
     resource :email, only: [:show, :update]
     resources :sessions, only: [:index]
+    resource :calendar_feed, only: [:show, :update]
+    resource :backup, only: [:show]
+    resource :restore, only: [:create]
+    resources :tones, only: [:index, :create, :update, :destroy]
     inertia :appearance
   end
 
@@ -32,7 +46,7 @@ Rails.application.routes.draw do
   # Can be used by load balancers and uptime monitors to verify that the app is live.
   get "up" => "rails/health#show", as: :rails_health_check
 
-  # Render dynamic PWA files from app/views/pwa/* (remember to link manifest in application.html.erb)
-  # get "manifest" => "rails/pwa#manifest", as: :pwa_manifest
-  # get "service-worker" => "rails/pwa#service_worker", as: :pwa_service_worker
+  # Render dynamic PWA files from app/views/pwa/*
+  get "manifest" => "rails/pwa#manifest", as: :pwa_manifest
+  get "service-worker" => "rails/pwa#service_worker", as: :pwa_service_worker
 end
@@ -0,0 +1,7 @@
+# frozen_string_literal: true
+
+class AddArchivedAtToEvents < ActiveRecord::Migration[8.1]
+  def change
+    add_column :events, :archived_at, :datetime
+  end
+end
@@ -0,0 +1,7 @@
+# frozen_string_literal: true
+
+class AddDeletedAtToEvents < ActiveRecord::Migration[8.1]
+  def change
+    add_column :events, :deleted_at, :datetime
+  end
+end
@@ -0,0 +1,7 @@
+# frozen_string_literal: true
+
+class AddImageThumbnailsToEvents < ActiveRecord::Migration[8.1]
+  def change
+    add_column :events, :image_thumbnails, :json, null: false, default: {}
+  end
+end
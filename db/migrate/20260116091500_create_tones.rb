@@ -0,0 +1,15 @@
+# frozen_string_literal: true
+
+class CreateTones < ActiveRecord::Migration[8.1]
+  def change
+    create_table :tones do |t|
+      t.references :user, null: false, foreign_key: true
+      t.string :key, null: false
+      t.string :name, null: false
+      t.string :color, null: false
+
+      t.timestamps
+    end
+    add_index :tones, [:user_id, :key], unique: true
+  end
+end
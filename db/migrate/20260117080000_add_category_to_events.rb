@@ -0,0 +1,7 @@
+# frozen_string_literal: true
+
+class AddCategoryToEvents < ActiveRecord::Migration[8.1]
+  def change
+    add_column :events, :category, :string
+  end
+end
@@ -0,0 +1,14 @@
+# frozen_string_literal: true
+
+class CreateSyncOperations < ActiveRecord::Migration[8.1]
+  def change
+    create_table :sync_operations do |t|
+      t.references :user, null: false, foreign_key: true
+      t.string :client_id, null: false
+      t.json :result, default: {}, null: false
+
+      t.timestamps
+    end
+    add_index :sync_operations, [:user_id, :client_id], unique: true
+  end
+end
@@ -10,10 +10,43 @@
 #
 # It's strongly recommended that you check this file into your version control system.
 
-ActiveRecord::Schema[8.1].define(version: 2026_01_09_212815) do
+ActiveRecord::Schema[8.1].define(version: 2026_01_20_080000) do
+  create_table "active_storage_attachments", force: :cascade do |t|
+    t.integer "blob_id", null: false
+    t.datetime "created_at", null: false
+    t.string "name", null: false
+    t.integer "record_id", null: false
+    t.string "record_type", null: false
+    t.index ["blob_id"], name: "index_active_storage_attachments_on_blob_id"
+    t.index ["record_type", "record_id", "name", "blob_id"], name: "index_active_storage_attachments_uniqueness", unique: true
+  end
+
+  create_table "active_storage_blobs", force: :cascade do |t|
+    t.bigint "byte_size", null: false
+    t.string "checksum"
+    t.string "content_type"
+    t.datetime "created_at", null: false
+    t.string "filename", null: false
+    t.string "key", null: false
+    t.text "metadata"
+    t.string "service_name", null: false
+    t.index ["key"], name: "index_active_storage_blobs_on_key", unique: true
+  end
+
+  create_table "active_storage_variant_records", force: :cascade do |t|
+    t.integer "blob_id", null: false
+    t.string "variation_digest", null: false
+    t.index ["blob_id", "variation_digest"], name: "index_active_storage_variant_records_uniqueness", unique: true
+  end
+
   create_table "events", force: :cascade do |t|
+    t.datetime "archived_at"
+    t.string "category"
     t.datetime "created_at", null: false
+    t.datetime "deleted_at"
+    t.text "description"
     t.date "end_on", null: false
+    t.json "image_thumbnails", default: {}, null: false
     t.json "images", default: [], null: false
     t.string "label", null: false
     t.date "start_on", null: false
@@ -32,16 +65,43 @@ ActiveRecord::Schema[8.1].define(version: 2026_01_09_212815) do
     t.index ["user_id"], name: "index_sessions_on_user_id"
   end
 
+  create_table "sync_operations", force: :cascade do |t|
+    t.string "client_id", null: false
+    t.datetime "created_at", null: false
+    t.json "result", default: {}, null: false
+    t.datetime "updated_at", null: false
+    t.integer "user_id", null: false
+    t.index ["user_id", "client_id"], name: "index_sync_operations_on_user_id_and_client_id", unique: true
+    t.index ["user_id"], name: "index_sync_operations_on_user_id"
+  end
+
+  create_table "tones", force: :cascade do |t|
+    t.string "color", null: false
+    t.datetime "created_at", null: false
+    t.string "key", null: false
+    t.string "name", null: false
+    t.datetime "updated_at", null: false
+    t.integer "user_id", null: false
+    t.index ["user_id", "key"], name: "index_tones_on_user_id_and_key", unique: true
+    t.index ["user_id"], name: "index_tones_on_user_id"
+  end
+
   create_table "users", force: :cascade do |t|
     t.datetime "created_at", null: false
     t.string "email", null: false
+    t.string "feed_token"
     t.string "name", null: false
     t.string "password_digest", null: false
     t.datetime "updated_at", null: false
     t.boolean "verified", default: false, null: false
     t.index ["email"], name: "index_users_on_email", unique: true
+    t.index ["feed_token"], name: "index_users_on_feed_token", unique: true
   end
 
+  add_foreign_key "active_storage_attachments", "active_storage_blobs", column: "blob_id"
+  add_foreign_key "active_storage_variant_records", "active_storage_blobs", column: "blob_id"
   add_foreign_key "events", "users"
   add_foreign_key "sessions", "users"
+  add_foreign_key "sync_operations", "users"
+  add_foreign_key "tones", "users"
 end
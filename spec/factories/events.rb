@@ -0,0 +1,11 @@
+# frozen_string_literal: true
+
+FactoryBot.define do
+  factory :event do
+    user
+    label { "Copenhagen sprint" }
+    tone { "sea" }
+    start_on { Date.new(2026, 3, 17) }
+    end_on { Date.new(2026, 3, 23) }
+  end
+end
@@ -0,0 +1,9 @@
+# frozen_string_literal: true
+
+FactoryBot.define do
+  factory :tone do
+    user
+    name { "Forest walk" }
+    color { "#2f855a" }
+  end
+end
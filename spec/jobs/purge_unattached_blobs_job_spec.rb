@@ -0,0 +1,32 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe PurgeUnattachedBlobsJob, type: :job do
+  def upload_image
+    ActiveStorage::Blob.create_and_upload!(io: StringIO.new("image"), filename: "harbour.png", content_type: "image/png")
+  end
+
+  it "purges uploads that were never attached once the grace period has passed" do
+    blob = upload_image
+
+    travel_to(PurgeUnattachedBlobsJob::GRACE_PERIOD.from_now + 1.minute) do
+      expect { described_class.perform_now }.to have_enqueued_job(ActiveStorage::PurgeJob).with(blob)
+    end
+  end
+
+  it "leaves recent uploads for the form that is still using them" do
+    upload_image
+
+    expect { described_class.perform_now }.not_to have_enqueued_job(ActiveStorage::PurgeJob)
+  end
+
+  it "leaves attached images" do
+    blob = upload_image
+    create(:event, image_references: [{id: blob.signed_id}])
+
+    travel_to(PurgeUnattachedBlobsJob::GRACE_PERIOD.from_now + 1.minute) do
+      expect { described_class.perform_now }.not_to have_enqueued_job(ActiveStorage::PurgeJob)
+    end
+  end
+end
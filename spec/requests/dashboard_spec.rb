@@ -0,0 +1,74 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Dashboard", type: :request do
+  let(:user) { create(:user) }
+  let(:inertia_headers) { {"X-Inertia" => "true", "X-Inertia-Version" => ViteRuby.digest} }
+
+  before do
+    sign_in_as user
+  end
+
+  def props
+    response.parsed_body["props"]
+  end
+
+  def event_labels
+    props["events"].pluck("label")
+  end
+
+  describe "GET /index" do
+    before do
+      create(:event, user: user, label: "New Year swim", start_on: Date.new(2025, 12, 30), end_on: Date.new(2026, 1, 2))
+      create(:event, user: user, label: "Copenhagen sprint")
+      create(:event, user: user, label: "Autumn retreat", start_on: Date.new(2027, 9, 10), end_on: Date.new(2027, 9, 14))
+    end
+
+    it "loads the events that overlap the requested year" do
+      get dashboard_url(year: 2026), headers: inertia_headers
+
+      expect(props["year"]).to eq(2026)
+      expect(props["range"]).to eq("start" => "2026-01-01", "end" => "2026-12-31")
+      expect(event_labels).to eq(["New Year swim", "Copenhagen sprint"])
+    end
+
+    it "defaults to the current year" do
+      travel_to Date.new(2027, 5, 1) do
+        get dashboard_url, headers: inertia_headers
+      end
+
+      expect(props["year"]).to eq(2027)
+      expect(event_labels).to eq(["Autumn retreat"])
+    end
+
+    it "loads an explicit date window" do
+      get dashboard_url(year: 2026, from: "2026-09-01", to: "2027-09-10"), headers: inertia_headers
+
+      expect(props["range"]).to eq("start" => "2026-09-01", "end" => "2027-09-10")
+      expect(event_labels).to eq(["Autumn retreat"])
+    end
+
+    it "falls back to the year when the window is invalid" do
+      get dashboard_url(year: "twenty", from: "2027-01-01", to: "2026-01-01"), headers: inertia_headers
+
+      expect(props["year"]).to eq(Date.current.year)
+      expect(props["range"]["start"]).to eq(Date.current.beginning_of_year.iso8601)
+    end
+
+    it "loads every event for the all-years board" do
+      get dashboard_url(year: 2026, all: true), headers: inertia_headers
+
+      expect(props["range"]).to be_nil
+      expect(event_labels).to eq(["New Year swim", "Copenhagen sprint", "Autumn retreat"])
+    end
+
+    it "does not include other users' events" do
+      create(:event, label: "Someone else's trip")
+
+      get dashboard_url(year: 2026), headers: inertia_headers
+
+      expect(event_labels).not_to include("Someone else's trip")
+    end
+  end
+end
@@ -0,0 +1,34 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Events::Archives", type: :request do
+  let(:user) { create(:user) }
+  let!(:event) { create(:event, user: user) }
+
+  before do
+    sign_in_as user
+  end
+
+  describe "POST /create" do
+    it "archives the event and redirects to the dashboard" do
+      post event_archive_url(event)
+
+      expect(event.reload).to be_archived
+      expect(response).to redirect_to(dashboard_url)
+      expect(flash[:notice]).to eq("Event archived")
+    end
+  end
+
+  describe "DELETE /destroy" do
+    it "restores the event and redirects to the dashboard" do
+      event.archive
+
+      delete event_archive_url(event)
+
+      expect(event.reload).not_to be_archived
+      expect(response).to redirect_to(dashboard_url)
+      expect(flash[:notice]).to eq("Event restored")
+    end
+  end
+end
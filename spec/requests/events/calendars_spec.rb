@@ -0,0 +1,48 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Events::Calendars", type: :request do
+  let(:user) { create(:user) }
+
+  before do
+    sign_in_as user
+  end
+
+  describe "GET /show" do
+    it "exports visions as all-day events with an exclusive end date" do
+      event = create(:event, user: user, label: "Copenhagen, Malmö; sprint", category: "travel", start_on: Date.new(2026, 3, 17), end_on: Date.new(2026, 3, 23))
+
+      get events_calendar_url
+
+      expect(response.media_type).to eq("text/calendar")
+      expect(response.headers["Content-Disposition"]).to include("visions.ics")
+      expect(response.body).to start_with("BEGIN:VCALENDAR\r\n")
+      expect(response.body).to include(
+        "UID:event-#{event.id}@vision-glance\r\n",
+        "DTSTART;VALUE=DATE:20260317\r\n",
+        "DTEND;VALUE=DATE:20260324\r\n",
+        "SUMMARY:Copenhagen\\, Malmö\\; sprint\r\n",
+        "CATEGORIES:Travel\r\n",
+      )
+    end
+
+    it "folds long lines at 75 octets" do
+      create(:event, user: user, description: "Harbour walks " * 20)
+
+      get events_calendar_url
+
+      lines = response.body.split("\r\n")
+      expect(lines.map(&:bytesize).max).to be <= 75
+      expect(lines).to include(a_string_starting_with(" "))
+    end
+
+    it "leaves out archived visions" do
+      create(:event, user: user, label: "Old plan", archived_at: Time.current)
+
+      get events_calendar_url
+
+      expect(response.body).not_to include("Old plan")
+    end
+  end
+end
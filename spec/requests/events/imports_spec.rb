@@ -0,0 +1,43 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Events::Imports", type: :request do
+  let(:user) { create(:user) }
+
+  before do
+    sign_in_as user
+  end
+
+  describe "POST /create" do
+    it "creates the imported visions and redirects back" do
+      expect {
+        post events_import_url, params: {events: [
+          {label: "Lisbon", tone: "sea", category: "travel", start: "2026-05-03", end: "2026-05-01"},
+          {label: "Half marathon", description: "Race day", tone: "sunset", start: "2026-10-04", end: "2026-10-04"},
+        ]}, headers: {"Referer" => dashboard_url(year: 2026)}
+      }.to change(user.events, :count).by(2)
+
+      lisbon = user.events.find_by!(label: "Lisbon")
+      expect(lisbon.start_on).to eq(Date.new(2026, 5, 1))
+      expect(lisbon.category).to eq("travel")
+      expect(response).to redirect_to(dashboard_url(year: 2026))
+      expect(flash[:notice]).to eq("Imported 2 visions")
+    end
+
+    it "skips duplicates and invalid entries" do
+      create(:event, user: user, label: "Lisbon", start_on: Date.new(2026, 5, 1), end_on: Date.new(2026, 5, 3))
+
+      expect {
+        post events_import_url, params: {events: [
+          {label: "Lisbon", tone: "sea", start: "2026-05-01", end: "2026-05-03"},
+          {label: "Porto", tone: "sea", start: "2026-05-04", end: "2026-05-05"},
+          {label: "Porto", tone: "sea", start: "2026-05-04", end: "2026-05-05"},
+          {label: "", tone: "sea", start: "2026-06-01", end: "2026-06-02"},
+        ]}
+      }.to change(user.events, :count).by(1)
+
+      expect(flash[:notice]).to eq("Imported 1 vision, skipped 3")
+    end
+  end
+end
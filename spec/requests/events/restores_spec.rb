@@ -0,0 +1,42 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Events::Restores", type: :request do
+  let(:user) { create(:user) }
+  let!(:event) { create(:event, user: user, images: ["data:image/png;base64,AAAA"]) }
+
+  before do
+    sign_in_as user
+  end
+
+  describe "POST /create" do
+    it "restores a deleted event with its images and redirects to the dashboard" do
+      event.soft_delete
+
+      post event_restore_url(event)
+
+      expect(event.reload).not_to be_deleted
+      expect(event.images).to eq(["data:image/png;base64,AAAA"])
+      expect(user.events).to include(event)
+      expect(response).to redirect_to(dashboard_url)
+      expect(flash[:notice]).to eq("Event restored")
+    end
+
+    it "does not restore an event that was never deleted" do
+      post event_restore_url(event)
+
+      expect(response).to have_http_status(:not_found)
+    end
+
+    it "does not restore another user's event" do
+      other = create(:event)
+      other.soft_delete
+
+      post event_restore_url(other)
+
+      expect(response).to have_http_status(:not_found)
+      expect(other.reload).to be_deleted
+    end
+  end
+end
@@ -0,0 +1,53 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Events::Searches", type: :request do
+  let(:user) { create(:user) }
+
+  before do
+    sign_in_as user
+  end
+
+  describe "GET /show" do
+    it "finds visions by label or description across every year" do
+      create(:event, user: user, label: "Lisbon food tour", start_on: Date.new(2024, 5, 1), end_on: Date.new(2024, 5, 3))
+      create(:event, user: user, label: "Spring break", description: "Pastries in lisbon", start_on: Date.new(2027, 4, 4), end_on: Date.new(2027, 4, 10))
+      create(:event, user: user, label: "Copenhagen sprint")
+
+      get events_search_url(q: "Lisbon")
+
+      expect(response.parsed_body.pluck("label")).to eq(["Spring break", "Lisbon food tour"])
+    end
+
+    it "skips archived visions and other users' visions" do
+      create(:event, user: user, label: "Lisbon", archived_at: Time.current)
+      create(:event, label: "Lisbon")
+
+      get events_search_url(q: "Lisbon")
+
+      expect(response.parsed_body).to be_empty
+    end
+
+    it "matches percent signs and underscores literally" do
+      create(:event, user: user, label: "100% Lisbon")
+      create(:event, user: user, label: "1000 Lisbon")
+      create(:event, user: user, label: "road_trip")
+      create(:event, user: user, label: "roadstrip")
+
+      get events_search_url(q: "100%")
+      expect(response.parsed_body.pluck("label")).to eq(["100% Lisbon"])
+
+      get events_search_url(q: "d_t")
+      expect(response.parsed_body.pluck("label")).to eq(["road_trip"])
+    end
+
+    it "returns nothing for a blank query" do
+      create(:event, user: user)
+
+      get events_search_url(q: " ")
+
+      expect(response.parsed_body).to be_empty
+    end
+  end
+end
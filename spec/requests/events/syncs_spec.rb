@@ -0,0 +1,112 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Events::Syncs", type: :request do
+  let(:user) { create(:user) }
+
+  before do
+    sign_in_as user
+  end
+
+  describe "POST /create" do
+    it "replays operations in order, following visions created offline" do
+      post events_sync_url, params: {operations: [
+        {id: 1, kind: "create", eventId: "offline-1", event: {label: "Lisbon", tone: "sea", start: "2026-05-01", end: "2026-05-03"}},
+        {id: 2, kind: "update", eventId: "offline-1", event: {label: "Lisbon and Porto", tone: "sea", start: "2026-05-01", end: "2026-05-06"}},
+      ]}, as: :json
+
+      event = user.events.sole
+      expect(event.label).to eq("Lisbon and Porto")
+      expect(event.end_on).to eq(Date.new(2026, 5, 6))
+      expect(response.parsed_body["results"].pluck("id", "status")).to eq([[1, "applied"], [2, "applied"]])
+      expect(response.parsed_body["results"].last["event"]).to include("id" => event.id, "updatedAt" => event.revision)
+    end
+
+    it "applies updates and deletes made against the current revision" do
+      updated = create(:event, user: user, label: "Lisbon")
+      deleted = create(:event, user: user)
+
+      post events_sync_url, params: {operations: [
+        {id: 1, kind: "update", eventId: updated.id, baseUpdatedAt: updated.revision, event: {label: "Porto", tone: "sea", start: "2026-05-01", end: "2026-05-03"}},
+        {id: 2, kind: "delete", eventId: deleted.id, baseUpdatedAt: deleted.revision},
+      ]}, as: :json
+
+      expect(updated.reload.label).to eq("Porto")
+      expect(deleted.reload).to be_deleted
+      expect(response.parsed_body["results"].pluck("status")).to eq(%w[applied applied])
+    end
+
+    it "applies several changes queued against the same revision" do
+      event = create(:event, user: user, label: "Lisbon")
+
+      post events_sync_url, params: {operations: [
+        {id: 1, kind: "update", eventId: event.id, baseUpdatedAt: event.revision, event: {label: "Porto", tone: "sea", start: "2026-05-01", end: "2026-05-03"}},
+        {id: 2, kind: "update", eventId: event.id, baseUpdatedAt: event.revision, event: {label: "Faro", tone: "sea", start: "2026-05-01", end: "2026-05-03"}},
+      ]}, as: :json
+
+      expect(event.reload.label).to eq("Faro")
+      expect(response.parsed_body["results"].pluck("status")).to eq(%w[applied applied])
+    end
+
+    it "reports a conflict when the vision changed since the operation was queued" do
+      event = create(:event, user: user, label: "Lisbon")
+      revision = event.revision
+      event.update!(label: "Lisbon, edited elsewhere", updated_at: 1.minute.from_now)
+
+      post events_sync_url, params: {operations: [
+        {id: 1, kind: "update", eventId: event.id, baseUpdatedAt: revision, event: {label: "Porto", tone: "sea", start: "2026-05-01", end: "2026-05-03"}},
+        {id: 2, kind: "delete", eventId: event.id, baseUpdatedAt: revision},
+      ]}, as: :json
+
+      expect(event.reload.label).to eq("Lisbon, edited elsewhere")
+      expect(response.parsed_body["results"].pluck("status")).to eq(%w[conflict conflict])
+      expect(response.parsed_body["results"].first["event"]).to include("label" => "Lisbon, edited elsewhere")
+    end
+
+    it "reports invalid and missing visions without stopping" do
+      other = create(:event)
+
+      expect {
+        post events_sync_url, params: {operations: [
+          {id: 1, kind: "create", eventId: "offline-1", event: {label: "", tone: "sea", start: "2026-05-01", end: "2026-05-03"}},
+          {id: 2, kind: "update", eventId: "offline-1", event: {label: "Lisbon", tone: "sea", start: "2026-05-01", end: "2026-05-03"}},
+          {id: 3, kind: "update", eventId: other.id, baseUpdatedAt: other.revision, event: {label: "Mine now", tone: "sea", start: "2026-05-01", end: "2026-05-03"}},
+          {id: 4, kind: "delete", eventId: "offline-2"},
+          {id: 5, kind: "create", eventId: "offline-3", event: {label: "Porto", tone: "sea", start: "2026-06-01", end: "2026-06-02"}},
+        ]}, as: :json
+      }.to change(user.events, :count).by(1)
+
+      expect(other.reload.label).not_to eq("Mine now")
+      expect(response.parsed_body["results"].pluck("status")).to eq(%w[invalid missing missing applied applied])
+      expect(response.parsed_body["results"].first["errors"]).to include("label")
+    end
+
+    it "answers operations sent again with their first result instead of applying them twice" do
+      operations = [
+        {id: 1, clientId: "c1", kind: "create", eventId: "offline-1", event: {label: "Lisbon", tone: "sea", start: "2026-05-01", end: "2026-05-03"}},
+      ]
+      post events_sync_url, params: {operations: operations}, as: :json
+      event = user.events.sole
+
+      expect {
+        post events_sync_url, params: {operations: [
+          *operations,
+          {id: 2, clientId: "c2", kind: "update", eventId: "offline-1", event: {label: "Lisbon and Porto", tone: "sea", start: "2026-05-01", end: "2026-05-06"}},
+        ]}, as: :json
+      }.not_to change(user.events, :count)
+
+      expect(event.reload.label).to eq("Lisbon and Porto")
+      expect(response.parsed_body["results"].pluck("id", "status")).to eq([[1, "applied"], [2, "applied"]])
+      expect(response.parsed_body["results"].first["event"]).to include("id" => event.id)
+    end
+
+    it "forgets replayed operations once they expire" do
+      user.sync_operations.create!(client_id: "c1", result: {status: "applied"}, created_at: 31.days.ago)
+
+      post events_sync_url, params: {operations: [{id: 1, clientId: "c2", kind: "delete", eventId: "offline-1"}]}, as: :json
+
+      expect(user.sync_operations.pluck(:client_id)).to eq(["c2"])
+    end
+  end
+end
@@ -0,0 +1,180 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Events", type: :request do
+  let(:user) { create(:user) }
+
+  before do
+    sign_in_as user
+  end
+
+  def upload_image
+    ActiveStorage::Blob.create_and_upload!(io: StringIO.new("image"), filename: "harbour.png", content_type: "image/png")
+  end
+
+  describe "POST /create" do
+    it "creates an event and redirects to the dashboard" do
+      expect {
+        post events_url, params: {label: "Spring break", tone: "sunset", start: "2026-04-10", end: "2026-04-04"}
+      }.to change(user.events, :count).by(1)
+
+      event = user.events.last
+      expect(event.start_on).to eq(Date.new(2026, 4, 4))
+      expect(event.end_on).to eq(Date.new(2026, 4, 10))
+      expect(response).to redirect_to(dashboard_url)
+    end
+
+    it "attaches direct-uploaded images" do
+      blob = upload_image
+
+      post events_url, params: {label: "Copenhagen", tone: "sea", start: "2026-03-17", end: "2026-03-23", images: [{id: blob.signed_id}]}
+
+      expect(user.events.last.photos.blobs).to contain_exactly(blob)
+    end
+
+    it "pairs uploaded images with their thumbnails" do
+      blob = upload_image
+      thumbnail = upload_image
+
+      post events_url, params: {label: "Copenhagen", tone: "sea", start: "2026-03-17", end: "2026-03-23", images: [{id: blob.signed_id, thumbnailId: thumbnail.signed_id}]}
+
+      image = user.events.last.calendar_payload[:images].sole
+      expect(image[:id]).to eq(blob.signed_id)
+      expect(image[:thumbnailId]).to eq(thumbnail.signed_id)
+    end
+
+    it "rejects more than six images" do
+      images = Array.new(7) { {id: upload_image.signed_id} }
+
+      expect {
+        post events_url, params: {label: "Copenhagen", tone: "sea", start: "2026-03-17", end: "2026-03-23", images: images}
+      }.not_to change(Event, :count)
+
+      expect(session[:inertia_errors]).to eq(images: ["can't be more than 6"])
+    end
+
+    it "accepts a tone from the user's palette" do
+      tone = create(:tone, user: user)
+
+      post events_url, params: {label: "Forest retreat", tone: tone.key, start: "2026-05-01", end: "2026-05-03"}
+
+      expect(user.events.last.tone).to eq(tone.key)
+    end
+
+    it "rejects another user's tone" do
+      tone = create(:tone)
+
+      post events_url, params: {label: "Forest retreat", tone: tone.key, start: "2026-05-01", end: "2026-05-03"}
+
+      expect(session[:inertia_errors]).to eq(tone: ["is not included in the list"])
+    end
+
+    it "files the event under a category" do
+      post events_url, params: {label: "Lisbon", tone: "sea", category: "travel", start: "2026-05-01", end: "2026-05-03"}
+
+      expect(user.events.last.category).to eq("travel")
+    end
+
+    it "rejects an unknown category" do
+      expect {
+        post events_url, params: {label: "Lisbon", tone: "sea", category: "errands", start: "2026-05-01", end: "2026-05-03"}
+      }.not_to change(Event, :count)
+
+      expect(session[:inertia_errors]).to eq(category: ["is not included in the list"])
+    end
+  end
+
+  describe "PATCH /update" do
+    let!(:event) { create(:event, user: user) }
+
+    context "with valid params" do
+      it "updates the event and redirects to the dashboard" do
+        patch event_url(event), params: {label: "Nordic sprint", description: "Long walks along the harbour", tone: "ink", start: "2026-03-18", end: "2026-03-25"}
+
+        event.reload
+        expect(event.label).to eq("Nordic sprint")
+        expect(event.description).to eq("Long walks along the harbour")
+        expect(event.tone).to eq("ink")
+        expect(event.end_on).to eq(Date.new(2026, 3, 25))
+        expect(response).to redirect_to(dashboard_url)
+        expect(flash[:notice]).to eq("Event updated")
+      end
+
+      it "redirects back to the dashboard year it was made from" do
+        patch event_url(event), params: {label: "Nordic sprint", tone: "ink", start: "2026-03-18", end: "2026-03-25"}, headers: {"Referer" => dashboard_url(year: 2027)}
+
+        expect(response).to redirect_to(dashboard_url(year: 2027))
+      end
+
+      it "leaves the attributes a partial update doesn't send alone" do
+        blob = upload_image
+        event.update!(description: "Long walks along the harbour", image_references: [{id: blob.signed_id}])
+
+        patch event_url(event), params: {label: "Nordic sprint"}
+
+        event.reload
+        expect(event.label).to eq("Nordic sprint")
+        expect(event.description).to eq("Long walks along the harbour")
+        expect(event.photos.blobs).to contain_exactly(blob)
+        expect(event.start_on).to eq(Date.new(2026, 3, 17))
+        expect(response).to redirect_to(dashboard_url)
+      end
+    end
+
+    context "with invalid params" do
+      it "does not update the event and returns the errors" do
+        patch event_url(event), params: {label: "", tone: "sea", start: "2026-03-17", end: "2026-03-23"}
+
+        expect(event.reload.label).to eq("Copenhagen sprint")
+        expect(response).to redirect_to(dashboard_url)
+        expect(session[:inertia_errors]).to eq(label: ["can't be blank"])
+      end
+    end
+
+    context "with another user's event" do
+      it "returns not found" do
+        other_event = create(:event)
+
+        patch event_url(other_event), params: {label: "Hijacked"}
+
+        expect(response).to have_http_status(:not_found)
+        expect(other_event.reload.label).to eq("Copenhagen sprint")
+      end
+    end
+  end
+
+  describe "DELETE /destroy" do
+    let!(:event) { create(:event, user: user) }
+
+    it "deletes the event and redirects to the dashboard" do
+      expect { delete event_url(event) }.to change(user.events, :count).by(-1)
+
+      expect(response).to redirect_to(dashboard_url)
+    end
+
+    it "keeps the event restorable until the restore window has passed" do
+      delete event_url(event)
+
+      expect(event.reload).to be_deleted
+      expect(PurgeDeletedEventJob).to have_been_enqueued.with(event)
+    end
+
+    it "purges the event once the restore window has passed" do
+      delete event_url(event)
+
+      travel_to(Event::RESTORE_WINDOW.from_now + 1.minute) do
+        expect { PurgeDeletedEventJob.perform_now(event) }.to change(Event, :count).by(-1)
+      end
+    end
+
+    it "leaves an event restored in the meantime" do
+      delete event_url(event)
+      event.reload.restore
+
+      travel_to(Event::RESTORE_WINDOW.from_now + 1.minute) do
+        expect { PurgeDeletedEventJob.perform_now(event) }.not_to change(Event, :count)
+      end
+    end
+  end
+end
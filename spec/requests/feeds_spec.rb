@@ -0,0 +1,29 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Feeds", type: :request do
+  let(:user) { create(:user) }
+
+  describe "GET /show" do
+    it "serves the user's visions without signing in" do
+      create(:event, user: user, label: "Copenhagen sprint")
+      create(:event, label: "Someone else's trip")
+
+      get feed_url(user.feed_token, format: :ics)
+
+      expect(response.media_type).to eq("text/calendar")
+      expect(response.body).to include("SUMMARY:Copenhagen sprint")
+      expect(response.body).not_to include("Someone else")
+    end
+
+    it "stops working once the token is regenerated" do
+      token = user.feed_token
+      user.regenerate_feed_token
+
+      get feed_url(token, format: :ics)
+
+      expect(response).to have_http_status(:not_found)
+    end
+  end
+end
@@ -0,0 +1,41 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Settings::Backups", type: :request do
+  let(:user) { create(:user) }
+
+  before do
+    sign_in_as user
+  end
+
+  describe "GET /show" do
+    it "returns http success" do
+      get settings_backup_url
+      expect(response).to have_http_status(:success)
+    end
+
+    it "downloads a versioned archive of the account" do
+      tone = create(:tone, user: user)
+      create(:event, user: user, label: "Copenhagen sprint", tone: tone.key, category: "travel")
+
+      get settings_backup_url(format: :json)
+
+      archive = response.parsed_body
+      expect(response.headers["Content-Disposition"]).to include("attachment")
+      expect(archive).to include("format" => "vision-glance-backup", "version" => 1)
+      expect(archive["tones"]).to eq([tone.palette_payload.as_json])
+      expect(archive["events"].sole).to include("label" => "Copenhagen sprint", "start" => "2026-03-17", "end" => "2026-03-23", "tone" => tone.key, "category" => "travel", "archived" => false)
+    end
+
+    it "embeds images when asked to" do
+      event = create(:event, user: user)
+      event.photos.attach(io: StringIO.new("image"), filename: "harbour.png", content_type: "image/png")
+
+      get settings_backup_url(format: :json, images: "embed")
+
+      image = response.parsed_body["events"].sole["images"].sole
+      expect(image).to eq("filename" => "harbour.png", "content_type" => "image/png", "data" => Base64.strict_encode64("image"))
+    end
+  end
+end
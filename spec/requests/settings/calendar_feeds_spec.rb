@@ -0,0 +1,31 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Settings::CalendarFeeds", type: :request do
+  let(:user) { create(:user) }
+  let(:inertia_headers) { {"X-Inertia" => "true", "X-Inertia-Version" => ViteRuby.digest} }
+
+  before do
+    sign_in_as user
+  end
+
+  describe "GET /show" do
+    it "shows the feed URL" do
+      get settings_calendar_feed_url, headers: inertia_headers
+
+      expect(response.parsed_body["props"]["feed_url"]).to eq(feed_url(user.feed_token, format: :ics))
+    end
+  end
+
+  describe "PATCH /update" do
+    it "regenerates the feed token" do
+      expect {
+        patch settings_calendar_feed_url
+      }.to change { user.reload.feed_token }
+
+      expect(response).to redirect_to(settings_calendar_feed_url)
+      expect(flash[:notice]).to eq("Your feed URL has been regenerated")
+    end
+  end
+end
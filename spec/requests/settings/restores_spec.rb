@@ -0,0 +1,107 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Settings::Restores", type: :request do
+  let(:user) { create(:user) }
+  let(:inertia_headers) { {"X-Inertia" => "true", "X-Inertia-Version" => ViteRuby.digest} }
+  let(:archive) do
+    {
+      format: "vision-glance-backup",
+      version: 1,
+      tones: [{key: "custom-moss", name: "Moss", color: "#2f855a"}],
+      events: [
+        {label: "Copenhagen sprint", start: "2026-03-17", end: "2026-03-23", tone: "sea"},
+        {label: "Forest retreat", start: "2026-05-01", end: "2026-05-03", tone: "custom-moss", category: "health", images: [{filename: "moss.png", content_type: "image/png", data: Base64.strict_encode64("image")}]},
+        {label: "", start: "2026-06-01", end: "2026-06-02", tone: "sea"},
+      ],
+    }
+  end
+
+  before do
+    sign_in_as user
+    create(:event, user: user, label: "Copenhagen sprint", start_on: Date.new(2026, 3, 17), end_on: Date.new(2026, 3, 23))
+  end
+
+  def backup_file(content = archive.to_json)
+    Rack::Test::UploadedFile.new(StringIO.new(content), "application/json", original_filename: "backup.json")
+  end
+
+  describe "POST /create" do
+    it "summarises a dry run without changing anything" do
+      expect {
+        post settings_restore_url, params: {archive: backup_file, dry_run: "true"}, headers: inertia_headers
+      }.not_to change { [user.events.count, user.tones.count] }
+
+      expect(response.parsed_body["props"]["preview"]).to include(
+        "tones_created" => 1,
+        "events_created" => 1,
+        "events_conflicting" => 1,
+        "events_invalid" => 1,
+        "images_skipped" => 0,
+        "conflicts" => [{"label" => "Copenhagen sprint", "start" => "2026-03-17", "end" => "2026-03-23"}],
+      )
+    end
+
+    it "restores tones and visions, skipping conflicts" do
+      expect {
+        post settings_restore_url, params: {archive: backup_file}
+      }.to change(user.events, :count).by(1).and change(user.tones, :count).by(1)
+
+      restored = user.events.find_by!(label: "Forest retreat")
+      expect(restored.tone).to eq("custom-moss")
+      expect(restored.photos.sole.filename.to_s).to eq("moss.png")
+      expect(response).to redirect_to(settings_backup_url)
+      expect(flash[:notice]).to eq("Restored 1 vision, skipped 2")
+    end
+
+    context "with images that can't be restored" do
+      let(:other_users_blob) { create(:event, image_references: [{id: upload_image.signed_id}]).photos.sole.blob }
+      let(:own_blob) { create(:event, user: user, label: "Lisbon", image_references: [{id: upload_image.signed_id}]).photos.sole.blob }
+      let(:archive) do
+        {
+          format: "vision-glance-backup",
+          version: 1,
+          events: [
+            {
+              label: "Forest retreat", start: "2026-05-01", end: "2026-05-03", tone: "sea",
+              images: [
+                {signed_id: own_blob.signed_id},
+                {signed_id: other_users_blob.signed_id},
+                {signed_id: "missing"},
+                {filename: "notes.txt", content_type: "text/plain", data: Base64.strict_encode64("notes")},
+                {filename: "moss.png", content_type: "image/png", data: Base64.strict_encode64("image")},
+              ],
+            },
+          ],
+        }
+      end
+
+      def upload_image
+        ActiveStorage::Blob.create_and_upload!(io: StringIO.new("image"), filename: "harbour.png", content_type: "image/png")
+      end
+
+      it "reports the images a restore would leave out" do
+        post settings_restore_url, params: {archive: backup_file, dry_run: "true"}, headers: inertia_headers
+
+        expect(response.parsed_body["props"]["preview"]).to include("events_created" => 1, "events_invalid" => 0, "images_skipped" => 3)
+      end
+
+      it "only attaches images and the user's own blobs" do
+        post settings_restore_url, params: {archive: backup_file}
+
+        restored = user.events.find_by!(label: "Forest retreat")
+        expect(restored.photos.map { |photo| photo.filename.to_s }).to contain_exactly("harbour.png", "moss.png")
+        expect(restored.photos.blobs).to include(own_blob)
+        expect(restored.photos.blobs).not_to include(other_users_blob)
+      end
+    end
+
+    it "rejects files that are not backups" do
+      post settings_restore_url, params: {archive: backup_file({format: "other"}.to_json)}
+
+      expect(response).to redirect_to(settings_backup_url)
+      expect(session[:inertia_errors]).to eq(archive: ["This file isn't a Vision Glance backup"])
+    end
+  end
+end
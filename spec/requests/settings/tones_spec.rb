@@ -0,0 +1,71 @@
+# frozen_string_literal: true
+
+require "rails_helper"
+
+RSpec.describe "Settings::Tones", type: :request do
+  let(:user) { create(:user) }
+
+  before do
+    sign_in_as user
+  end
+
+  describe "GET /settings/tones" do
+    it "returns http success" do
+      get settings_tones_url
+      expect(response).to have_http_status(:success)
+    end
+  end
+
+  describe "POST /settings/tones" do
+    it "adds a color to the palette" do
+      expect {
+        post settings_tones_url, params: {name: "Forest walk", color: "#2F855A"}
+      }.to change(user.tones, :count).by(1)
+
+      tone = user.tones.last
+      expect(tone.key).to start_with("custom-")
+      expect(tone.color).to eq("#2f855a")
+      expect(response).to redirect_to(settings_tones_path)
+      expect(flash[:notice]).to eq("Color added")
+    end
+
+    it "rejects colors that are not hex values" do
+      post settings_tones_url, params: {name: "Forest walk", color: "green"}
+
+      expect(response).to redirect_to(settings_tones_path)
+      expect(session[:inertia_errors]).to eq(color: ["is invalid"])
+    end
+  end
+
+  describe "PATCH /settings/tones/:key" do
+    it "renames and recolors the tone" do
+      tone = create(:tone, user: user)
+
+      patch settings_tone_url(tone.key), params: {name: "Moss", color: "#4a5d23"}
+
+      expect(tone.reload).to have_attributes(name: "Moss", color: "#4a5d23")
+      expect(response).to redirect_to(settings_tones_path)
+    end
+
+    it "returns not found for another user's tone" do
+      tone = create(:tone)
+
+      patch settings_tone_url(tone.key), params: {name: "Hijacked"}
+
+      expect(response).to have_http_status(:not_found)
+    end
+  end
+
+  describe "DELETE /settings/tones/:key" do
+    it "removes the tone and moves its events back to a built-in tone" do
+      tone = create(:tone, user: user)
+      event = create(:event, user: user, tone: tone.key)
+
+      delete settings_tone_url(tone.key)
+
+      expect(user.tones).to be_empty
+      expect(event.reload.tone).to eq("sea")
+      expect(response).to redirect_to(settings_tones_path)
+    end
+  end
+end
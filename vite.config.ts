@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import tailwindcss from "@tailwindcss/vite"
 import react from "@vitejs/plugin-react"
 import { defineConfig } from "vite"
@@ -17,4 +18,9 @@ export default defineConfig({
     tailwindcss(),
     RubyPlugin(),
   ],
+  test: {
+    // A zone with daylight saving, so date math is checked across the
+    // clock changes.
+    env: { TZ: "America/New_York" },
+  },
 })